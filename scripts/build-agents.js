@@ -71,7 +71,7 @@ Convert research and requirements into precise, executable plans.
 ## Planning Principles
 1. **Atomic Tasks**: Each task should be independently verifiable
 2. **Clear Verification**: Every task must have explicit verification steps
-3. **Logical Ordering**: Dependencies must be clearly sequenced
+3. **Logical Ordering**: Dependencies must be clearly sequenced; list them in \`depends\` (task ids, comma-separated) so independent tasks can run in parallel
 4. **Context Preservation**: Include enough detail for fresh context execution
 
 ## XML Plan Structure
@@ -82,7 +82,7 @@ Convert research and requirements into precise, executable plans.
     <item>What must exist before starting</item>
   </prerequisites>
   <tasks>
-    <task id="1" name="Descriptive Task Name">
+    <task id="1" name="Descriptive Task Name" depends="">
       <description>
         Detailed description of what needs to be done.
         Include specific implementation details.
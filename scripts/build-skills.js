@@ -156,7 +156,7 @@ Follow the PLAN workflow:
 <phase number="{{ARGS}}" name="Phase Name">
   <overview>Brief description</overview>
   <tasks>
-    <task id="1" name="Task Name">
+    <task id="1" name="Task Name" depends="">
       <description>What needs to be done</description>
       <files>
         <file>path/to/file.ts</file>
@@ -205,9 +205,12 @@ Create the plan now.`
    d. If verification fails: Debug and fix before committing
 
 3. **Parallel Execution**:
-   - Identify independent tasks
-   - Execute them in parallel when possible
-   - Keep context fresh (spawn sub-agents if needed)
+   - Tasks run in dependency order from their \`depends="..."\` attributes;
+     independent tasks run in parallel, each in a fresh context
+   - Per-task status is saved to .planning/phase-{{ARGS}}/EXECUTION.json
+   - If EXECUTION.json exists, resume: skip tasks marked "completed" and
+     retry the ones that failed or were blocked
+   - In the DEVWEAVER REPL, \`/execute-phase {{ARGS}}\` does all of this
 
 4. **Update State**: After each task, update .planning/STATE.md
 
@@ -0,0 +1,272 @@
+// ============================================================================
+// DEVWEAVER – Conversation Compaction
+//
+// Keeps agent loops and REPL history inside the model's context window.
+// Once the estimated prompt size passes `config.agent.compactAtTokens`, old
+// tool results are trimmed first; if that is not enough, older messages are
+// replaced by an LLM-written summary. The current request and the latest
+// turns are always kept verbatim.
+// ============================================================================
+
+import { callLLM, extractText } from '../llm/provider.js';
+import { resolveModel } from '../llm/profiles.js';
+import { usageOf } from '../llm/usage.js';
+import config from '../config.js';
+import logger from '../utils/logger.js';
+import { isAbortError } from '../utils/abort.js';
+import type { ContentBlock, Message, UsageTotals } from '../types/index.js';
+
+/** Rough cost of one image; providers bill roughly 1–2k tokens per image. */
+const IMAGE_TOKENS = 1600;
+/** Tool results longer than this are trimmed once they are no longer the latest. */
+const TRIM_OVER_CHARS = 2000;
+const TRIM_KEEP_CHARS = 1500;
+/** After summarising, aim for half the limit so compaction does not run every turn. */
+const TARGET_RATIO = 0.5;
+
+const SUMMARY_PROMPT = `You compress the earlier part of a DEVWEAVER agent conversation so work can continue in a smaller context.
+Write a concise summary that keeps every fact needed to carry on:
+- the user's goals, requirements and decisions
+- file paths, function names, Jira/Confluence/PR identifiers and URLs
+- what was changed, created or already checked, and the results
+- errors hit and open questions
+Do not invent anything. Use short bullet points.`;
+
+export type Summarizer = (messages: Message[]) => Promise<string>;
+
+export interface CompactionOptions {
+  /** Compact once the estimate exceeds this many tokens. */
+  maxTokens: number;
+  /** Writes the summary of dropped messages; without it they are dropped with a note. */
+  summarize?: Summarizer;
+}
+
+export interface CompactionResult {
+  messages: Message[];
+  /** 'none', 'trimmed' (old tool results shortened) or 'summarized'. */
+  action: 'none' | 'trimmed' | 'summarized';
+  tokensBefore: number;
+  tokensAfter: number;
+}
+
+// ── Estimation ──────────────────────────────────────────────────────────────
+
+/**
+ * Approximate token count of a string (~4 characters per token).
+ */
+export function estimateTextTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function estimateBlockTokens(block: ContentBlock): number {
+  switch (block.type) {
+    case 'text':
+      return estimateTextTokens(block.text || '');
+    case 'tool_use':
+      return estimateTextTokens((block.name || '') + JSON.stringify(block.input ?? {}));
+    case 'tool_result':
+      return estimateTextTokens(typeof block.content === 'string' ? block.content : JSON.stringify(block.content ?? ''));
+    case 'image':
+      return IMAGE_TOKENS;
+    case 'document':
+      // PDFs are billed per page (text plus a page image); ~1 token per 7 bytes is a fair guess
+      return Math.max(IMAGE_TOKENS, Math.ceil(((block.source?.data.length || 0) * 0.75) / 7));
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Approximate prompt size of a message list. A heuristic, not a tokenizer:
+ * good enough to act well before the real context limit.
+ */
+export function estimateTokens(messages: Message[]): number {
+  let total = 0;
+  for (const msg of messages) {
+    total += 4; // role and message framing
+    total += typeof msg.content === 'string'
+      ? estimateTextTokens(msg.content)
+      : msg.content.reduce((sum, block) => sum + estimateBlockTokens(block), 0);
+  }
+  return total;
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+/** A message typed by the user, as opposed to one carrying tool results. */
+function isUserTurn(msg: Message): boolean {
+  return msg.role === 'user' && !hasToolResults(msg);
+}
+
+function lastIndexWhere(messages: Message[], predicate: (msg: Message, index: number) => boolean): number {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const msg = messages[i];
+    if (msg && predicate(msg, i)) return i;
+  }
+  return -1;
+}
+
+function hasToolResults(msg: Message): boolean {
+  return typeof msg.content !== 'string' && msg.content.some((b) => b.type === 'tool_result');
+}
+
+function resultText(content: unknown): string {
+  return typeof content === 'string' ? content : JSON.stringify(content ?? '');
+}
+
+/**
+ * Shorten every tool result except those in the latest tool-result message.
+ */
+export function trimToolResults(messages: Message[]): Message[] {
+  const latest = lastIndexWhere(messages, hasToolResults);
+
+  return messages.map((msg, i) => {
+    if (i === latest || typeof msg.content === 'string') return msg;
+    if (!msg.content.some((b) => b.type === 'tool_result' && resultText(b.content).length > TRIM_OVER_CHARS)) return msg;
+
+    return {
+      ...msg,
+      content: msg.content.map((block) => {
+        if (block.type !== 'tool_result') return block;
+        const text = resultText(block.content);
+        if (text.length <= TRIM_OVER_CHARS) return block;
+        return {
+          ...block,
+          content: `${text.slice(0, TRIM_KEEP_CHARS)}\n…[trimmed ${text.length - TRIM_KEEP_CHARS} characters of an older tool result to save context; call the tool again if you need it]`,
+        };
+      }),
+    };
+  });
+}
+
+function withSummary(msg: Message, summary: string, dropped: number): Message {
+  const blocks: ContentBlock[] = typeof msg.content === 'string'
+    ? [{ type: 'text', text: msg.content }]
+    : [...msg.content];
+  blocks.push({ type: 'text', text: `[Context compacted — summary of ${dropped} earlier messages]\n${summary}` });
+  return { ...msg, content: blocks };
+}
+
+/**
+ * Render messages as a plain transcript for the summarizer.
+ */
+export function renderTranscript(messages: Message[]): string {
+  return messages.map((msg) => {
+    if (typeof msg.content === 'string') return `${msg.role.toUpperCase()}: ${msg.content}`;
+    const parts = msg.content.map((block) => {
+      switch (block.type) {
+        case 'text': return block.text || '';
+        case 'tool_use': return `[called ${block.name} ${JSON.stringify(block.input ?? {}).slice(0, 500)}]`;
+        case 'tool_result': return `[result] ${resultText(block.content).slice(0, TRIM_OVER_CHARS)}`;
+        case 'image': return '[image]';
+        case 'document': return `[document ${block.title || ''}]`;
+        default: return '';
+      }
+    });
+    return `${msg.role.toUpperCase()}: ${parts.filter(Boolean).join('\n')}`;
+  }).join('\n\n');
+}
+
+// ── Compaction ──────────────────────────────────────────────────────────────
+
+/**
+ * Bring `messages` under `opts.maxTokens` if they are over it.
+ *
+ * The latest user turn (the request being worked on) is never dropped.
+ * Messages are cut either at an earlier user turn, or — when the current
+ * turn alone is too big — between its tool rounds, so every kept
+ * tool_result still follows its tool_use.
+ */
+export async function compactMessages(messages: Message[], opts: CompactionOptions): Promise<CompactionResult> {
+  const tokensBefore = estimateTokens(messages);
+  if (opts.maxTokens <= 0 || tokensBefore <= opts.maxTokens) {
+    return { messages, action: 'none', tokensBefore, tokensAfter: tokensBefore };
+  }
+
+  const trimmed = trimToolResults(messages);
+  const trimmedTokens = estimateTokens(trimmed);
+  if (trimmedTokens <= opts.maxTokens) {
+    return { messages: trimmed, action: 'trimmed', tokensBefore, tokensAfter: trimmedTokens };
+  }
+
+  const task = lastIndexWhere(trimmed, isUserTurn);
+  const lastAssistant = lastIndexWhere(trimmed, (msg, i) => i > task && msg.role === 'assistant');
+  const current = trimmed[task];
+  if (!current) return { messages: trimmed, action: 'trimmed', tokensBefore, tokensAfter: trimmedTokens };
+
+  // Candidate cuts, from least to most dropped: earlier user turns, then
+  // tool rounds inside the current turn
+  const cuts: Array<{ keep: Message[]; drop: Message[] }> = [];
+  trimmed.forEach((msg, i) => {
+    if (i >= 1 && i <= task && isUserTurn(msg)) {
+      cuts.push({ keep: trimmed.slice(i), drop: trimmed.slice(0, i) });
+    } else if (i >= task + 3 && i <= lastAssistant && msg.role === 'assistant') {
+      cuts.push({
+        keep: [current, ...trimmed.slice(i)],
+        drop: [...trimmed.slice(0, task), ...trimmed.slice(task + 1, i)],
+      });
+    }
+  });
+
+  const target = opts.maxTokens * TARGET_RATIO;
+  const cut = cuts.find((c) => estimateTokens(c.keep) <= target) ?? cuts[cuts.length - 1];
+  if (!cut) return { messages: trimmed, action: 'trimmed', tokensBefore, tokensAfter: trimmedTokens };
+
+  let summary: string;
+  try {
+    summary = opts.summarize
+      ? await opts.summarize(cut.drop)
+      : 'Earlier messages were removed to save context.';
+  } catch (err) {
+    if (isAbortError(err)) throw err;
+    logger.warn('Context summary failed, dropping older messages without one:', err instanceof Error ? err.message : String(err));
+    summary = 'Earlier messages were removed to save context; no summary is available.';
+  }
+
+  const compacted = cut.keep.map((msg, i) => (i === 0 ? withSummary(msg, summary, cut.drop.length) : msg));
+  return { messages: compacted, action: 'summarized', tokensBefore, tokensAfter: estimateTokens(compacted) };
+}
+
+/**
+ * A summarizer backed by the configured LLM. Uses the `compaction` model
+ * profile and reports the cost of each summary through `onUsage`.
+ */
+export function llmSummarizer(agentName: string, onUsage?: (usage: UsageTotals) => void, signal?: AbortSignal): Summarizer {
+  return async (messages) => {
+    const { model, maxTokens } = resolveModel('compaction');
+    const response = await callLLM({
+      systemPrompt: SUMMARY_PROMPT,
+      messages: [{ role: 'user', content: `Summarise this conversation:\n\n${renderTranscript(messages)}` }],
+      agentName: `${agentName}:compaction`,
+      model,
+      maxTokens,
+      stream: false,
+      signal,
+    });
+    onUsage?.(usageOf(response, response.model || model || config.llm.model));
+    return extractText(response);
+  };
+}
+
+/**
+ * Compact `messages` in place when they pass the configured threshold,
+ * after subtracting `overheadTokens` for the system prompt and tools.
+ */
+export async function compactInPlace(
+  messages: Message[],
+  agentName: string,
+  overheadTokens: number,
+  onUsage?: (usage: UsageTotals) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  if (config.agent.compactAtTokens <= 0) return;
+
+  const result = await compactMessages(messages, {
+    maxTokens: Math.max(1, config.agent.compactAtTokens - overheadTokens),
+    summarize: llmSummarizer(agentName, onUsage, signal),
+  });
+  if (result.action === 'none') return;
+
+  logger.agent(agentName, `Context ${result.action}: ~${result.tokensBefore} → ~${result.tokensAfter} tokens`);
+  messages.splice(0, messages.length, ...result.messages);
+}
@@ -2,12 +2,26 @@
 // DEVWEAVER – Context Manager
 //
 // Manages fresh executor contexts to prevent context rot.
-// Spawns specialized agents with clean 200k token contexts.
+// Spawns specialized agents with clean 200k token contexts, and provides the
+// git worktree helpers the phase executor uses to isolate each task.
 // ============================================================================
 
+import fs from 'node:fs';
+import path from 'node:path';
+import config from '../config.js';
 import { runAgent, type RunAgentOptions, type RunAgentResult } from './engine.js';
+import { resolveModel } from '../llm/profiles.js';
 import logger from '../utils/logger.js';
-import type { Message } from '../types/index.js';
+import { dryRun } from '../utils/dry-run.js';
+import { PLANNING_DIR, addBlocker } from '../utils/docs.js';
+import {
+  activeRepoRoot, isGitRepo, createTaskWorktree, commitAll, mergeTaskBranch, removeTaskWorktree,
+  type MergeOutcome, type TaskWorktree,
+} from '../utils/git.js';
+import { loadPhasePlan, findPlanTask, formatPlanTask } from '../utils/plan.js';
+import type { JSONSchema, Message } from '../types/index.js';
+
+const EXCERPT_CHARS = 3000;
 
 export interface ContextOptions {
   /**
@@ -16,7 +30,8 @@ export interface ContextOptions {
   maxIterations?: number;
 
   /**
-   * Tool names to make available in this context
+   * Tools to make available in this context: names, globs (`code_*`),
+   * groups (`@sdlc`) and `!exclusions`
    */
   toolNames?: string[];
 
@@ -29,22 +44,63 @@ export interface ContextOptions {
    * Prior messages to include (if includePriorMessages is true)
    */
   priorMessages?: Message[];
+
+  /**
+   * Model profile key (e.g. `executor`) used to pick model and max_tokens
+   */
+  profileKey?: string;
+
+  /**
+   * JSON Schema for a structured final answer, returned as `output`
+   */
+  outputSchema?: JSONSchema;
+
+  /**
+   * Cancels the run
+   */
+  signal?: AbortSignal;
 }
 
+/** The verifier's structured answer. */
+export interface VerifierVerdict {
+  verdict: 'PASS' | 'FAIL';
+  /** One or two sentences on the outcome. */
+  summary: string;
+  /** Commands run and what they showed, one item each. */
+  evidence: string[];
+  /** Acceptance criteria or verification steps that are not met. */
+  failures: string[];
+}
+
+export const VERDICT_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    verdict: { type: 'string', enum: ['PASS', 'FAIL'] },
+    summary: { type: 'string' },
+    evidence: { type: 'array', items: { type: 'string' } },
+    failures: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['verdict', 'summary', 'evidence', 'failures'],
+  additionalProperties: false,
+};
+
 /**
  * Execute a task in a fresh context to prevent context rot
  */
-export async function executeFreshContext(
+export async function executeFreshContext<T = unknown>(
   agentName: string,
   systemPrompt: string,
   userMessage: string,
   options: ContextOptions = {}
-): Promise<RunAgentResult> {
+): Promise<RunAgentResult<T>> {
   const {
     maxIterations = 20,
     toolNames,
     includePriorMessages = false,
     priorMessages = [],
+    profileKey,
+    outputSchema,
+    signal,
   } = options;
 
   logger.info(`Spawning fresh context for ${agentName}...`);
@@ -56,10 +112,13 @@ export async function executeFreshContext(
     toolNames,
     maxIterations,
     priorMessages: includePriorMessages ? priorMessages : [],
+    ...(profileKey ? resolveModel(profileKey) : {}),
+    outputSchema,
+    signal,
   };
 
   try {
-    const result = await runAgent(agentOptions);
+    const result = await runAgent<T>(agentOptions);
     logger.success(`Fresh context completed: ${agentName}`);
     return result;
   } catch (error) {
@@ -100,6 +159,95 @@ export async function executeParallelContexts(
   }
 }
 
+/**
+ * The start of a .planning document, without the generated footer.
+ */
+function planningExcerpt(file: string): string | null {
+  const docPath = path.join(PLANNING_DIR, file);
+  if (!fs.existsSync(docPath)) return null;
+  const content = fs.readFileSync(docPath, 'utf-8').replace(/\n---\n\*(Generated|Updated) by DEVWEAVER[^\n]*\n?$/, '').trim();
+  return content.length > EXCERPT_CHARS ? `${content.slice(0, EXCERPT_CHARS)}\n…(truncated; read ${docPath} for the rest)` : content;
+}
+
+/**
+ * Build the opening message for a task's fresh context: the task from
+ * `.planning/phase-N/PLAN.md` followed by PROJECT, REQUIREMENTS and STATE
+ * excerpts. Without a PLAN.md the caller's description is used on its own;
+ * a PLAN.md that lacks the task is an error.
+ */
+export function buildTaskContext(phaseNumber: number, taskId: number | string, taskDescription = ''): string {
+  const plan = loadPhasePlan(phaseNumber);
+  const sections: string[] = [];
+
+  if (plan) {
+    const task = findPlanTask(plan, taskId);
+    if (!task) {
+      throw new Error(`Task ${taskId} not found in phase-${phaseNumber}/PLAN.md (tasks: ${plan.tasks.map((t) => t.id).join(', ')})`);
+    }
+    sections.push(`# Phase ${phaseNumber}${plan.name ? `: ${plan.name}` : ''}`);
+    if (plan.overview) sections.push(plan.overview);
+    sections.push(formatPlanTask(task, phaseNumber));
+    if (taskDescription) sections.push(`## Additional instructions\n${taskDescription}`);
+  } else {
+    logger.warn(`No phase-${phaseNumber}/PLAN.md — using the task description only`);
+    sections.push(`## Task ${taskId} (phase ${phaseNumber})\n${taskDescription}`);
+  }
+
+  for (const [file, title] of [['PROJECT.md', 'Project'], ['REQUIREMENTS.md', 'Requirements'], ['STATE.md', 'Current state']] as const) {
+    const excerpt = planningExcerpt(file);
+    if (excerpt) sections.push(`## ${title} (from ${PLANNING_DIR}/${file})\n\n${excerpt}`);
+  }
+
+  if (activeRepoRoot() !== config.repo.localPath) {
+    sections.push(`## Workspace
+You are working in your own git worktree (${activeRepoRoot()}) on a task branch that is merged back when you finish.
+Commit your work there. Do not edit ${PLANNING_DIR}/STATE.md; DEVWEAVER records the task's status.`);
+  }
+  return sections.join('\n\n');
+}
+
+// ── Worktree isolation ──────────────────────────────────────────────────────
+
+/**
+ * Whether executors get their own worktree: enabled (DEVWEAVER_WORKTREES),
+ * the repo is a git checkout, and this is not a dry run (creating branches
+ * and merging them are real changes).
+ */
+export function useWorktrees(): boolean {
+  return config.agent.worktrees && !dryRun.enabled && isGitRepo(config.repo.localPath);
+}
+
+/**
+ * A worktree on branch `devweaver/phase-N/task-M` for one task.
+ */
+export function createExecutorWorktree(phaseNumber: number, taskId: number | string): TaskWorktree {
+  return createTaskWorktree(config.repo.localPath, `phase-${phaseNumber}/task-${taskId}`);
+}
+
+/**
+ * Merge a completed task's branch back into the repo. Work the executor
+ * left uncommitted is committed first. On success the worktree and branch
+ * are removed; on a conflict the merge is aborted, the branch is kept for
+ * manual resolution and the conflict is added to STATE.md as a blocker.
+ */
+export function integrateTask(worktree: TaskWorktree, phaseNumber: number, taskId: number | string, taskName: string): MergeOutcome {
+  commitAll(worktree.dir, `feat(phase-${phaseNumber}): ${taskName}`);
+  const outcome = mergeTaskBranch(worktree, `Merge phase ${phaseNumber} task ${taskId}: ${taskName}`);
+  if (outcome.merged) {
+    removeTaskWorktree(worktree, { deleteBranch: true });
+    logger.success(`Merged ${worktree.branch}`);
+    return outcome;
+  }
+
+  removeTaskWorktree(worktree);
+  const reason = outcome.conflicts.length > 0 ? `conflicts in ${outcome.conflicts.join(', ')}` : outcome.error;
+  addBlocker(
+    `Task ${taskId} (${taskName}) could not be merged: ${reason}. Merge branch ${worktree.branch} by hand, then run /execute-phase ${phaseNumber} again.`,
+    phaseNumber
+  );
+  return outcome;
+}
+
 /**
  * Load researcher agent prompt
  */
@@ -148,7 +296,8 @@ You are a focused execution agent for the DEVWEAVER system.
 ## Execution Protocol
 
 ### 1. Read & Understand
-- Load the task from PLAN.md
+- Your task from PLAN.md is in the first message, with its steps,
+  verification and acceptance criteria
 - Understand acceptance criteria
 - Identify verification steps
 
@@ -175,21 +324,17 @@ Verification:
 
 Closes: task-N-M"
 
-### 5. Update State
-Update .planning/STATE.md with task completion.
-
 ## Critical Rules
 - ✅ DO commit after successful verification
 - ✅ DO follow existing code patterns
 - ✅ DO test your changes
 - ❌ DON'T commit failing code
 - ❌ DON'T skip verification
+- ❌ DON'T edit .planning/STATE.md — DEVWEAVER records task status and blockers
 
-You are running in a fresh context. Everything you need is in:
-- .planning/PROJECT.md - Project vision
-- .planning/REQUIREMENTS.md - Requirements
-- .planning/phase-N/PLAN.md - Your task
-- .planning/STATE.md - Current state`;
+You are running in a fresh context. The first message holds your task and
+excerpts of PROJECT.md, REQUIREMENTS.md and STATE.md; read the full files in
+.planning/ if you need more.`;
 }
 
 /**
@@ -203,7 +348,8 @@ You are a thorough verification agent for the DEVWEAVER system.
 ## Verification Protocol
 
 ### 1. Load Acceptance Criteria
-- Read task acceptance criteria from PLAN.md
+- The task's acceptance criteria and verification steps from PLAN.md are in
+  the first message
 - Understand expected outcomes
 
 ### 2. Execute Verification
@@ -218,7 +364,10 @@ For each verification step:
 - Error scenarios
 
 ### 4. Report Results
-Provide clear PASS/FAIL verdict with evidence.
+Return a PASS/FAIL verdict with evidence: the commands you ran and what
+they showed, and every acceptance criterion or verification step that is
+not met. PASS only when all of them are met; your evidence is handed to the
+executor to fix a FAIL.
 
 ## Critical Rules
 - Be thorough but practical
@@ -238,22 +387,24 @@ export async function spawnResearcher(
     'researcher',
     getResearcherPrompt(),
     researchGoals,
-    { toolNames: toolNames || ['code_*', 'bitbucket_*'] }
+    { toolNames: toolNames || ['code_*', 'bitbucket_*'], profileKey: 'researcher' }
   );
 }
 
 /**
- * Spawn executor agent in fresh context
+ * Spawn executor agent in fresh context. The task is loaded from the
+ * phase's PLAN.md; `taskDescription` is added as extra instructions.
  */
 export async function spawnExecutor(
   taskDescription: string,
   phaseNumber: number,
-  taskId: number
+  taskId: number | string,
+  signal?: AbortSignal
 ): Promise<RunAgentResult> {
   return executeFreshContext(
     `executor-phase${phaseNumber}-task${taskId}`,
     getExecutorPrompt(),
-    taskDescription,
+    buildTaskContext(phaseNumber, taskId, taskDescription),
     {
       toolNames: [
         'code_*',
@@ -262,55 +413,32 @@ export async function spawnExecutor(
         'confluence_*',
       ],
       maxIterations: 30,
+      profileKey: 'executor',
+      signal,
     }
   );
 }
 
 /**
- * Spawn verifier agent in fresh context
+ * Spawn verifier agent in fresh context. Its verdict is returned as
+ * `output` (see VERDICT_SCHEMA).
  */
 export async function spawnVerifier(
   taskDescription: string,
   phaseNumber: number,
-  taskId: number
-): Promise<RunAgentResult> {
-  return executeFreshContext(
+  taskId: number | string,
+  signal?: AbortSignal
+): Promise<RunAgentResult<VerifierVerdict>> {
+  return executeFreshContext<VerifierVerdict>(
     `verifier-phase${phaseNumber}-task${taskId}`,
     getVerifierPrompt(),
-    `Verify task completion: ${taskDescription}`,
+    `Verify that this task is complete.\n\n${buildTaskContext(phaseNumber, taskId, taskDescription)}`,
     {
-      toolNames: ['code_*'],
+      toolNames: ['code_*', '!code_write_file'],
       maxIterations: 10,
+      profileKey: 'verifier',
+      outputSchema: VERDICT_SCHEMA,
+      signal,
     }
   );
 }
-
-/**
- * Spawn parallel executors for independent tasks
- */
-export async function spawnParallelExecutors(
-  tasks: Array<{
-    description: string;
-    phaseNumber: number;
-    taskId: number;
-  }>
-): Promise<RunAgentResult[]> {
-  logger.info(`Executing ${tasks.length} tasks in parallel with fresh contexts`);
-
-  return executeParallelContexts(
-    tasks.map(task => ({
-      agentName: `executor-phase${task.phaseNumber}-task${task.taskId}`,
-      systemPrompt: getExecutorPrompt(),
-      userMessage: task.description,
-      options: {
-        toolNames: [
-          'code_*',
-          'bitbucket_*',
-          'jira_*',
-          'confluence_*',
-        ],
-        maxIterations: 30,
-      },
-    }))
-  );
-}
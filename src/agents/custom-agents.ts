@@ -0,0 +1,167 @@
+// ============================================================================
+// DEVWEAVER – Custom Sub-Agents
+//
+// Project-specific agents defined as Markdown files in .devweaver/agents/.
+// The frontmatter holds the description, routing triggers, tool selectors
+// and iteration limit; the body is the system prompt. They are added to
+// SUB_AGENTS at startup, so the orchestrator, quickRoute, /agents,
+// /direct and workflows treat them like the built-in agents.
+//
+//   ---
+//   description: Review database migrations for safety
+//   triggers: [migration, schema change]
+//   tools: [code_*, "!code_write_file", "@jira"]
+//   maxIterations: 15
+//   ---
+//   You are the Migration Reviewer...
+// ============================================================================
+
+import fs from 'node:fs';
+import path from 'node:path';
+import config from '../config.js';
+import { runAgent } from './engine.js';
+import { SUB_AGENTS } from './sub-agents.js';
+import type { SubAgentDefinition } from './sub-agents.js';
+import { resolveModel } from '../llm/profiles.js';
+import logger from '../utils/logger.js';
+
+export const CUSTOM_AGENTS_DIR = path.join('.devweaver', 'agents');
+
+type FrontmatterValue = string | number | boolean | string[];
+
+export interface CustomAgentSpec {
+  /** SUB_AGENTS key: the `name` field, or the file name with `-` as `_`. */
+  key: string;
+  description: string;
+  triggers: string[];
+  /** Tool selectors (names, globs, `@group`, `!exclusion`); omit for every tool. */
+  tools?: string[];
+  maxIterations?: number;
+  systemPrompt: string;
+  file: string;
+}
+
+// ── Frontmatter ─────────────────────────────────────────────────────────────
+
+function parseScalar(raw: string): string | number | boolean {
+  const value = raw.trim();
+  if (/^(["']).*\1$/.test(value)) return value.slice(1, -1);
+  if (value === 'true' || value === 'false') return value === 'true';
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+  return value;
+}
+
+/**
+ * Split a Markdown file into its `---` frontmatter and body. Supports the
+ * YAML subset agent files need: `key: value` scalars, inline lists
+ * (`[a, "b c"]`) and block lists (`- item` lines).
+ */
+export function parseFrontmatter(text: string): { data: Record<string, FrontmatterValue>; body: string } {
+  const match = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/.exec(text);
+  if (!match) return { data: {}, body: text.trim() };
+
+  const data: Record<string, FrontmatterValue> = {};
+  let listKey: string | null = null;
+  for (const line of (match[1] as string).split(/\r?\n/)) {
+    if (!line.trim() || line.trim().startsWith('#')) continue;
+
+    const item = /^\s*-\s+(.*)$/.exec(line);
+    if (item && listKey) {
+      (data[listKey] as string[]).push(String(parseScalar(item[1] as string)));
+      continue;
+    }
+
+    const pair = /^([\w-]+):\s*(.*)$/.exec(line);
+    if (!pair) throw new Error(`Cannot parse frontmatter line: ${line}`);
+    const key = pair[1] as string;
+    const value = (pair[2] as string).trim();
+    listKey = null;
+    if (value === '') {
+      data[key] = [];
+      listKey = key;
+    } else if (value.startsWith('[') && value.endsWith(']')) {
+      data[key] = value.slice(1, -1).split(',').map((v) => String(parseScalar(v))).filter(Boolean);
+    } else {
+      data[key] = parseScalar(value);
+    }
+  }
+  return { data, body: (match[2] as string).trim() };
+}
+
+// ── Loading ─────────────────────────────────────────────────────────────────
+
+function asList(value: FrontmatterValue | undefined): string[] | undefined {
+  if (value === undefined) return undefined;
+  return Array.isArray(value) ? value : [String(value)];
+}
+
+/**
+ * Read one agent file. Throws with the reason when it is not a valid agent.
+ */
+export function parseAgentFile(file: string): CustomAgentSpec {
+  const { data, body } = parseFrontmatter(fs.readFileSync(file, 'utf-8'));
+  const key = String(data.name ?? path.basename(file, '.md')).replace(/-/g, '_');
+
+  if (!/^[a-z][a-z0-9_]*$/.test(key)) throw new Error(`agent name "${key}" must be lowercase letters, digits and underscores`);
+  if (typeof data.description !== 'string' || !data.description) throw new Error('frontmatter needs a description');
+  if (!body) throw new Error('the body (system prompt) is empty');
+  if (data.maxIterations !== undefined && (typeof data.maxIterations !== 'number' || data.maxIterations < 1)) {
+    throw new Error('maxIterations must be a positive number');
+  }
+
+  return {
+    key,
+    description: data.description,
+    triggers: (asList(data.triggers) || []).map((t) => t.toLowerCase()),
+    tools: asList(data.tools),
+    maxIterations: data.maxIterations as number | undefined,
+    systemPrompt: body,
+    file,
+  };
+}
+
+/**
+ * Turn a spec into a SUB_AGENTS entry. Tool selectors are resolved when the
+ * agent runs, so MCP tools connected after startup are included.
+ */
+export function toSubAgent(spec: CustomAgentSpec): SubAgentDefinition {
+  return {
+    fn: (input) => runAgent({
+      name: spec.key,
+      ...resolveModel(spec.key),
+      systemPrompt: spec.systemPrompt,
+      userMessage: input.message,
+      attachments: input.attachments,
+      signal: input.signal,
+      toolNames: spec.tools,
+      maxIterations: spec.maxIterations,
+    }),
+    description: spec.description,
+    triggers: spec.triggers,
+    source: spec.file,
+  };
+}
+
+/**
+ * Register every `*.md` agent in `dir` (default: .devweaver/agents in the
+ * repo). Invalid files, and files that would replace a built-in agent, are
+ * skipped with a warning. Returns the keys registered.
+ */
+export function loadCustomAgents(dir = path.join(config.repo.localPath, CUSTOM_AGENTS_DIR)): string[] {
+  if (!fs.existsSync(dir)) return [];
+
+  const loaded: string[] = [];
+  for (const name of fs.readdirSync(dir).filter((f) => f.endsWith('.md')).sort()) {
+    const file = path.join(dir, name);
+    try {
+      const spec = parseAgentFile(file);
+      const existing = SUB_AGENTS[spec.key];
+      if (existing && !existing.source) throw new Error(`"${spec.key}" is a built-in agent`);
+      SUB_AGENTS[spec.key] = toSubAgent(spec);
+      loaded.push(spec.key);
+    } catch (err) {
+      logger.warn(`Skipping agent ${file}:`, err instanceof Error ? err.message : String(err));
+    }
+  }
+  return loaded;
+}
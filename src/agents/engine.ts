@@ -6,17 +6,51 @@
 // ============================================================================
 import { callLLM, extractText, extractToolUse } from '../llm/provider.js';
 import registry from '../tools/registry.js';
+import { emptyUsage, addUsage, usageOf } from '../llm/usage.js';
 import config from '../config.js';
-import logger from '../utils/logger.js';
-import type { Message, ToolDefinition, ContentBlock, ToolInput } from '../types/index.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { compactInPlace, estimateTextTokens } from './compaction.js';
+import { isAbortError, scopedSignal, throwIfAborted } from '../utils/abort.js';
+import { agentEvents, newRunId } from './events.js';
+import { SchemaValidationError, validateSchema } from '../utils/schema.js';
+import type {
+  Message,
+  ToolDefinition,
+  ContentBlock,
+  JSONSchema,
+  LLMCallOptions,
+  LLMResponse,
+  RunStatus,
+  ToolInput,
+  ToolUseBlock,
+  UsageTotals,
+} from '../types/index.js';
 
 export interface RunAgentOptions {
   name: string;
   systemPrompt: string;
   userMessage: string;
+  /** Tool selectors: names, globs (`code_*`), groups (`@sdlc`), `!exclusions`. Omit for every tool. */
   toolNames?: string[];
   maxIterations?: number;
   priorMessages?: Message[];
+  /** Image / document blocks sent ahead of the first user message. */
+  attachments?: ContentBlock[];
+  /** Model and max_tokens for this agent; default to `config.llm`. */
+  model?: string;
+  maxTokens?: number;
+  /** Cancels the run: in-flight LLM and tool calls are abandoned. */
+  signal?: AbortSignal;
+  /** Wall-clock limit for this run in ms; defaults to `config.agent.timeoutMs` (0 = none). */
+  timeoutMs?: number;
+  /**
+   * JSON Schema for a structured final answer. The model returns it by
+   * calling the `submit_result` tool; it is validated and comes back as
+   * `output`. Invalid results are sent back with the errors for another try.
+   */
+  outputSchema?: JSONSchema;
+  /** How many invalid results to send back before failing; default 2. */
+  outputRetries?: number;
 }
 
 export interface ToolCall {
@@ -24,16 +58,77 @@ export interface ToolCall {
   input: unknown;
 }
 
-export interface RunAgentResult {
+export interface RunAgentResult<T = unknown> {
   result: string;
+  /** The validated structured answer, when `outputSchema` was given and the run completed. */
+  output?: T;
+  /** Whether the agent finished or was stopped by a limit; see RunStatus. */
+  status: RunStatus;
+  /** stop_reason of the last LLM response. */
+  stopReason: string;
+  iterations: number;
   messages: Message[];
   toolCalls: ToolCall[];
+  /** Tokens and cost of every LLM call made during this run. */
+  usage: UsageTotals;
+}
+
+/** Per-run bookkeeping shared between runAgent and the loop, so run:end can report it even on failure. */
+interface RunState {
+  id: string;
+  iterations: number;
+  usage: UsageTotals;
+  stopReason?: string;
 }
 
 /**
  * Run a single agent with a system prompt, optional tool subset, and user messages.
+ * Rejects with an AbortError when cancelled and a TimeoutError when it runs too long.
+ * Emits run:start / run:end and the tool:* events on the agent event bus.
  */
-export async function runAgent(opts: RunAgentOptions): Promise<RunAgentResult> {
+export async function runAgent<T = unknown>(opts: RunAgentOptions): Promise<RunAgentResult<T>> {
+  const scope = scopedSignal(opts.signal, opts.timeoutMs ?? config.agent.timeoutMs, `Agent ${opts.name}`);
+  const run: RunState = { id: newRunId(opts.name), iterations: 0, usage: emptyUsage() };
+  const startedAt = Date.now();
+
+  agentEvents.emit('run:start', {
+    runId: run.id,
+    agent: opts.name,
+    userMessage: opts.userMessage,
+    toolNames: opts.toolNames ? registry.resolve(opts.toolNames) : registry.names(),
+  });
+
+  try {
+    const result = await agentLoop(opts, scope.signal, run) as RunAgentResult<T>;
+    agentEvents.emit('run:end', {
+      runId: run.id,
+      agent: opts.name,
+      status: result.status,
+      stopReason: result.stopReason,
+      iterations: run.iterations,
+      usage: run.usage,
+      durationMs: Date.now() - startedAt,
+      result: result.result,
+    });
+    return result;
+  } catch (err) {
+    agentEvents.emit('run:end', {
+      runId: run.id,
+      agent: opts.name,
+      status: failureStatus(err),
+      stopReason: run.stopReason,
+      iterations: run.iterations,
+      usage: run.usage,
+      durationMs: Date.now() - startedAt,
+      error: err instanceof Error ? err.message : String(err),
+    });
+    throw err;
+  } finally {
+    scope.dispose();
+  }
+}
+
+async function agentLoop(opts: RunAgentOptions, signal: AbortSignal, run: RunState): Promise<RunAgentResult> {
   const {
     name,
     systemPrompt,
@@ -41,30 +136,61 @@ export async function runAgent(opts: RunAgentOptions): Promise<RunAgentResult> {
     toolNames,
     maxIterations = config.agent.maxIterations,
     priorMessages = [],
+    attachments = [],
+    model,
+    maxTokens,
+    outputSchema,
+    outputRetries = 2,
   } = opts;
 
-  logger.agent(name, `Starting — "${userMessage.slice(0, 100)}..."`);
-
   // Build tool list
   const tools: ToolDefinition[] = toolNames
     ? registry.definitionsFor(toolNames)
     : registry.definitions();
+  const structured = outputSchema ? outputTool(outputSchema) : null;
+  if (structured) tools.push(structured.definition);
 
   // Build messages
   const messages: Message[] = [
     ...priorMessages,
-    { role: 'user', content: userMessage },
+    {
+      role: 'user',
+      content: attachments.length > 0
+        ? [...attachments, { type: 'text', text: userMessage }]
+        : userMessage,
+    },
   ];
 
   const allToolCalls: ToolCall[] = [];
+  const usage = run.usage;
   let finalText = '';
+  let status: RunStatus = 'max_iterations';
+  let output: unknown;
+  let hasOutput = false;
+  let invalidOutputs = 0;
+  let forceOutput = false;
+  const prompt = structured ? systemPrompt + OUTPUT_INSTRUCTIONS : systemPrompt;
+  const overheadTokens = estimateTextTokens(prompt + JSON.stringify(tools));
+
+  const llmOptions: LLMCallOptions = {
+    systemPrompt: prompt,
+    messages,
+    tools: tools.length > 0 ? tools : undefined,
+    agentName: name,
+    runId: run.id,
+    model,
+    maxTokens,
+    signal,
+  };
 
   for (let i = 0; i < maxIterations; i++) {
-    const response = await callLLM({
-      systemPrompt,
-      messages,
-      tools: tools.length > 0 ? tools : undefined,
-    });
+    throwIfAborted(signal);
+    run.iterations = i + 1;
+    await compactInPlace(messages, name, overheadTokens, (u) => addUsage(usage, u), signal);
+
+    const response = await callLLM(forceOutput ? { ...llmOptions, toolChoice: { type: 'tool', name: OUTPUT_TOOL } } : llmOptions);
+    addUsage(usage, usageOf(response, response.model || model || config.llm.model));
+    run.stopReason = response.stop_reason;
 
     // Collect text
     const text = extractText(response);
@@ -77,39 +203,223 @@ export async function runAgent(opts: RunAgentOptions): Promise<RunAgentResult> {
     messages.push({ role: 'assistant', content: response.content });
 
     if (toolUseBlocks.length === 0) {
+      if (structured && !forceOutput) {
+        // Answered in prose: require the output tool on the next turn
+        messages.push({ role: 'user', content: `Now call ${OUTPUT_TOOL} with your final answer.` });
+        forceOutput = true;
+        continue;
+      }
       // No tool calls — agent is done
-      logger.agent(name, `Completed in ${i + 1} iterations`);
+      status = response.stop_reason === 'max_tokens' ? 'max_tokens' : 'completed';
       break;
     }
 
-    // Execute tool calls and collect results
-    const toolResults: ContentBlock[] = [];
-    for (const tu of toolUseBlocks) {
-      logger.tool(tu.name, `Called by ${name}`);
+    // Execute tool calls; read-only calls run concurrently, results keep their order
+    const outputCalls = toolUseBlocks.filter((tu) => structured && tu.name === OUTPUT_TOOL);
+    const calls = toolUseBlocks.filter((tu) => !outputCalls.includes(tu));
+    for (const tu of calls) {
       allToolCalls.push({ name: tu.name, input: tu.input });
+    }
+    const resultsById = new Map<string, ContentBlock>();
+    for (const batch of batchToolCalls(calls)) {
+      const results = await mapWithConcurrency(batch, config.agent.toolConcurrency, (tu) => executeToolCall(tu, name, run.id, signal));
+      batch.forEach((tu, i) => resultsById.set(tu.id, results[i] as ContentBlock));
+    }
 
-      let result: unknown;
-      try {
-        result = await registry.execute(tu.name, tu.input as ToolInput);
-      } catch (err) {
-        result = { error: err instanceof Error ? err.message : String(err) };
-        logger.error(`Tool ${tu.name} failed:`, err instanceof Error ? err.message : String(err));
+    // Check structured output against the schema
+    let outputErrors: string[] = [];
+    for (const tu of outputCalls) {
+      const value = structured?.unwrap(tu.input);
+      const errors = hasOutput || !outputSchema ? [] : validateSchema(value, outputSchema);
+      if (errors.length === 0 && !hasOutput) {
+        output = value;
+        hasOutput = true;
       }
-
-      toolResults.push({
+      outputErrors = errors;
+      resultsById.set(tu.id, {
         type: 'tool_result',
         tool_use_id: tu.id,
-        content: typeof result === 'string' ? result : JSON.stringify(result),
+        content: errors.length === 0
+          ? 'Result accepted.'
+          : `The result does not match the schema:\n${errors.map((e) => `- ${e}`).join('\n')}\nCall ${OUTPUT_TOOL} again with a corrected result.`,
+        ...(errors.length > 0 ? { is_error: true } : {}),
       });
     }
 
-    // Add tool results to messages
-    messages.push({ role: 'user', content: toolResults });
+    // Add tool results to messages, in the order the calls were made
+    messages.push({ role: 'user', content: toolUseBlocks.map((tu) => resultsById.get(tu.id) as ContentBlock) });
+
+    if (hasOutput) {
+      status = 'completed';
+      break;
+    }
+    if (outputErrors.length > 0) {
+      if (++invalidOutputs > outputRetries) {
+        throw new SchemaValidationError(`${name} returned output that does not match its schema`, outputErrors);
+      }
+      forceOutput = true;
+    }
+  }
+
+  if (structured && !hasOutput && status !== 'max_iterations') {
+    throw new SchemaValidationError(`${name} finished without returning structured output`);
+  }
+
+  if (status === 'max_iterations') {
+    throwIfAborted(signal);
+    const summary = await summarizeAtLimit(llmOptions, maxIterations);
+    addUsage(usage, usageOf(summary, summary.model || model || config.llm.model));
+    run.stopReason = summary.stop_reason;
+    finalText = extractText(summary) || finalText;
   }
 
   return {
-    result: finalText,
+    result: finalText || (hasOutput ? JSON.stringify(output, null, 2) : ''),
+    ...(hasOutput ? { output } : {}),
+    status,
+    stopReason: run.stopReason ?? 'none',
+    iterations: run.iterations,
     messages,
     toolCalls: allToolCalls,
+    usage,
+  };
+}
+
+/** Tool through which an agent with an `outputSchema` returns its answer. */
+export const OUTPUT_TOOL = 'submit_result';
+
+const OUTPUT_INSTRUCTIONS = `
+
+FINAL ANSWER:
+When you are done, call the ${OUTPUT_TOOL} tool with your final answer. It is the only way to return it;
+text replies are not read. If ${OUTPUT_TOOL} reports errors, fix them and call it again.`;
+
+/**
+ * The output tool for a schema. Tool inputs must be objects, so any other
+ * schema is wrapped as `{ result: ... }` and unwrapped again on the way out.
+ */
+function outputTool(schema: JSONSchema): { definition: ToolDefinition; unwrap: (input: unknown) => unknown } {
+  const description = 'Submit your final answer. Call this exactly once, when the task is complete.';
+
+  if (schema.type === 'object') {
+    return {
+      definition: {
+        name: OUTPUT_TOOL,
+        description,
+        input_schema: { ...schema, type: 'object', properties: schema.properties || {} },
+      },
+      unwrap: (input) => input,
+    };
+  }
+
+  return {
+    definition: {
+      name: OUTPUT_TOOL,
+      description,
+      input_schema: { type: 'object', properties: { result: schema }, required: ['result'] },
+    },
+    unwrap: (input) => (input as { result?: unknown } | undefined)?.result,
+  };
+}
+
+/**
+ * Status for a run that rejected.
+ */
+export function failureStatus(err: unknown): RunStatus {
+  return isAbortError(err) ? 'cancelled' : 'error';
+}
+
+const LIMIT_PROMPT = (limit: number): string =>
+  `[You have reached the limit of ${limit} iterations for this task and cannot call any more tools. ` +
+  'Reply now with a short summary: what you completed, what is still unfinished, and what should happen next.]';
+
+/**
+ * One last LLM turn once a loop hits its iteration limit, so the caller
+ * gets a summary of where things stand instead of a half-finished thought.
+ * The instruction is added to the pending tool results (or as a new user
+ * message) and any tool calls in the reply are dropped, leaving `messages`
+ * a valid history that ends with an assistant message.
+ */
+export async function summarizeAtLimit(opts: LLMCallOptions, limit: number): Promise<LLMResponse> {
+  const { messages } = opts;
+  const last = messages[messages.length - 1];
+  const instruction: ContentBlock = { type: 'text', text: LIMIT_PROMPT(limit) };
+
+  if (last?.role === 'user') {
+    last.content = typeof last.content === 'string'
+      ? [{ type: 'text', text: last.content }, instruction]
+      : [...last.content, instruction];
+  } else {
+    messages.push({ role: 'user', content: [instruction] });
+  }
+
+  const response = await callLLM(opts);
+  const text = response.content.filter((b) => b.type === 'text');
+  messages.push({ role: 'assistant', content: text.length > 0 ? text : [{ type: 'text', text: '(no summary)' }] });
+  return response;
+}
+
+/**
+ * Split one turn's tool calls into batches that are safe to run together:
+ * consecutive read-only calls share a batch, every mutating call gets its
+ * own, so writes never overlap or reorder around reads.
+ */
+export function batchToolCalls(toolUseBlocks: ToolUseBlock[]): ToolUseBlock[][] {
+  const batches: ToolUseBlock[][] = [];
+  let readBatch: ToolUseBlock[] | null = null;
+
+  for (const tu of toolUseBlocks) {
+    if (registry.isReadOnly(tu.name)) {
+      if (!readBatch) {
+        readBatch = [];
+        batches.push(readBatch);
+      }
+      readBatch.push(tu);
+    } else {
+      readBatch = null;
+      batches.push([tu]);
+    }
+  }
+
+  return batches;
+}
+
+/**
+ * Run one tool call through the beforeTool hooks and the registry. Hooks may
+ * rewrite the input or veto the call; a veto goes back to the model as an
+ * error result.
+ */
+async function executeToolCall(tu: ToolUseBlock, agentName: string, runId: string, signal: AbortSignal): Promise<ContentBlock> {
+  const startedAt = Date.now();
+  const call = { runId, agent: agentName, toolUseId: tu.id, tool: tu.name };
+  const { input, blocked } = await agentEvents.runBeforeTool({ runId, agent: agentName, tool: tu.name, input: (tu.input ?? {}) as ToolInput });
+
+  if (blocked) {
+    agentEvents.emit('tool:end', { ...call, input, durationMs: 0, blocked });
+    return {
+      type: 'tool_result',
+      tool_use_id: tu.id,
+      content: JSON.stringify({ error: `Blocked by hook: ${blocked}` }),
+      is_error: true,
+    };
+  }
+
+  agentEvents.emit('tool:start', { ...call, input });
+
+  let result: unknown;
+  try {
+    result = await registry.execute(tu.name, input, { signal, agent: agentName });
+    agentEvents.emit('tool:end', { ...call, input, durationMs: Date.now() - startedAt, output: result });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    agentEvents.emit('tool:end', { ...call, input, durationMs: Date.now() - startedAt, error: message });
+    if (isAbortError(err)) throw err;
+    result = { error: message };
+  }
+
+  return {
+    type: 'tool_result',
+    tool_use_id: tu.id,
+    content: typeof result === 'string' ? result : JSON.stringify(result),
   };
 }
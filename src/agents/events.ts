@@ -0,0 +1,186 @@
+// ============================================================================
+// DEVWEAVER – Agent Lifecycle Events
+//
+// A typed event bus for everything an agent run does: run start/end, LLM
+// requests and responses, streamed text, tool calls and delegations.
+// Logging, the audit log, the CLI display and user shell hooks all
+// subscribe here (see agents/observers.ts) instead of living in the engine.
+//
+// `beforeTool` hooks run before each tool call and may change its input
+// or veto it.
+// ============================================================================
+
+import logger from '../utils/logger.js';
+import { isAbortError } from '../utils/abort.js';
+import type { LLMResponse, RunStatus, ToolInput, UsageTotals } from '../types/index.js';
+
+export interface AgentEventMap {
+  'run:start': {
+    runId: string;
+    agent: string;
+    userMessage: string;
+    toolNames: string[];
+  };
+  'run:end': {
+    runId: string;
+    agent: string;
+    status: RunStatus;
+    /** The last LLM stop_reason, when there was a response. */
+    stopReason?: string;
+    iterations: number;
+    usage: UsageTotals;
+    durationMs: number;
+    result?: string;
+    error?: string;
+  };
+  'llm:request': {
+    runId?: string;
+    agent: string;
+    model: string;
+    messageCount: number;
+    toolCount: number;
+    stream: boolean;
+  };
+  'llm:response': {
+    runId?: string;
+    agent: string;
+    model: string;
+    response: LLMResponse;
+    usage: UsageTotals;
+    durationMs: number;
+  };
+  /** Streamed text; `done` marks the end of one streamed response. */
+  'llm:text': {
+    agent: string;
+    delta: string;
+    done: boolean;
+  };
+  'tool:start': {
+    runId: string;
+    agent: string;
+    toolUseId: string;
+    tool: string;
+    input: ToolInput;
+  };
+  'tool:end': {
+    runId: string;
+    agent: string;
+    toolUseId: string;
+    tool: string;
+    input: ToolInput;
+    durationMs: number;
+    output?: unknown;
+    error?: string;
+    /** Set when a beforeTool hook vetoed the call; it never ran. */
+    blocked?: string;
+  };
+  'delegation:start': {
+    agent: string;
+    message: string;
+  };
+  'delegation:end': {
+    agent: string;
+    status: RunStatus;
+    durationMs: number;
+    result?: string;
+    usage?: UsageTotals;
+    error?: string;
+  };
+}
+
+export type AgentEventName = keyof AgentEventMap;
+export type AgentEventHandler<E extends AgentEventName> = (payload: AgentEventMap[E]) => void;
+
+export interface ToolCallInfo {
+  runId: string;
+  agent: string;
+  tool: string;
+  input: ToolInput;
+}
+
+/**
+ * What a beforeTool hook may return: `{ block }` vetoes the call (the
+ * reason is sent back to the model as the tool result), `{ input }`
+ * replaces the input. Returning nothing allows the call unchanged.
+ */
+export type ToolDecision = { block: string } | { input: ToolInput } | void;
+export type BeforeToolHook = (call: ToolCallInfo) => ToolDecision | Promise<ToolDecision>;
+
+class AgentEventBus {
+  private handlers = new Map<AgentEventName, Set<AgentEventHandler<never>>>();
+  private beforeToolHooks: BeforeToolHook[] = [];
+
+  /**
+   * Subscribe to an event. Returns an unsubscribe function.
+   */
+  on<E extends AgentEventName>(event: E, handler: AgentEventHandler<E>): () => void {
+    if (!this.handlers.has(event)) this.handlers.set(event, new Set());
+    const set = this.handlers.get(event) as Set<AgentEventHandler<E>>;
+    set.add(handler);
+    return () => set.delete(handler);
+  }
+
+  /**
+   * Notify subscribers. A failing subscriber is logged and never breaks the run.
+   */
+  emit<E extends AgentEventName>(event: E, payload: AgentEventMap[E]): void {
+    const set = this.handlers.get(event) as Set<AgentEventHandler<E>> | undefined;
+    if (!set) return;
+    for (const handler of set) {
+      try {
+        handler(payload);
+      } catch (err) {
+        logger.warn(`Event handler for ${event} failed:`, err instanceof Error ? err.message : String(err));
+      }
+    }
+  }
+
+  listenerCount(event: AgentEventName): number {
+    return this.handlers.get(event)?.size ?? 0;
+  }
+
+  /**
+   * Register a hook that runs before every tool call, in registration order.
+   * Returns an unregister function.
+   */
+  beforeTool(hook: BeforeToolHook): () => void {
+    this.beforeToolHooks.push(hook);
+    return () => {
+      this.beforeToolHooks = this.beforeToolHooks.filter((h) => h !== hook);
+    };
+  }
+
+  /**
+   * Run the beforeTool hooks for a call. Each hook sees the input as changed
+   * by the hooks before it; the first veto wins. A hook that throws vetoes
+   * the call, so a broken guard fails closed.
+   */
+  async runBeforeTool(call: ToolCallInfo): Promise<{ input: ToolInput; blocked?: string }> {
+    let input = call.input;
+    for (const hook of this.beforeToolHooks) {
+      let decision: ToolDecision;
+      try {
+        decision = await hook({ ...call, input });
+      } catch (err) {
+        if (isAbortError(err)) throw err;
+        return { input, blocked: `Hook failed: ${err instanceof Error ? err.message : String(err)}` };
+      }
+      if (!decision) continue;
+      if ('block' in decision) return { input, blocked: decision.block };
+      input = decision.input;
+    }
+    return { input };
+  }
+}
+
+// Singleton
+export const agentEvents = new AgentEventBus();
+
+let runCounter = 0;
+
+/**
+ * Short id correlating the events of one run, e.g. `CodeWriter-3`.
+ */
+export function newRunId(agent: string): string {
+  return `${agent}-${++runCounter}`;
+}
@@ -0,0 +1,206 @@
+// ============================================================================
+// DEVWEAVER – Event Observers
+//
+// Subscribers to the agent event bus: console logging of runs, tools and
+// delegations, a JSONL audit log, and user shell hooks configured under
+// `hooks` in .planning/config.json.
+// ============================================================================
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { spawn } from 'node:child_process';
+import { agentEvents } from './events.js';
+import type { ToolDecision } from './events.js';
+import { globToRegExp } from '../tools/registry.js';
+import { formatUsage } from '../llm/usage.js';
+import logger from '../utils/logger.js';
+import type { ToolInput } from '../types/index.js';
+
+const HOOK_TIMEOUT_MS = 30_000;
+const AUDIT_OUTPUT_CHARS = 2000;
+
+export interface ShellHook {
+  /** Tool name pattern: `*` / `?` wildcards, `|` between alternatives. Omit to match every tool. */
+  match?: string;
+  command: string;
+}
+
+export interface HooksConfig {
+  /** Run before a tool call; may block it or rewrite its input. */
+  preTool?: ShellHook[];
+  /** Run after a tool call; fire-and-forget. */
+  postTool?: ShellHook[];
+}
+
+export interface HookResult {
+  code: number | null;
+  stdout: string;
+  stderr: string;
+}
+
+// ── Logging ─────────────────────────────────────────────────────────────────
+
+let detachLoggingFn: (() => void) | null = null;
+
+/**
+ * Log agent lifecycle events to the console. Calling it again is a no-op.
+ * Returns a function that detaches the logger.
+ */
+export function attachLogging(): () => void {
+  if (detachLoggingFn) return detachLoggingFn;
+
+  const offs = [
+    agentEvents.on('run:start', ({ agent, userMessage }) => {
+      logger.agent(agent, `Starting — "${userMessage.slice(0, 100)}..."`);
+    }),
+    agentEvents.on('run:end', ({ agent, status, iterations, usage }) => {
+      if (status === 'completed') logger.agent(agent, `Completed in ${iterations} iterations (${formatUsage(usage)})`);
+      else if (status === 'max_iterations') logger.warn(`${agent} hit its ${iterations}-iteration limit and stopped with a summary (${formatUsage(usage)})`);
+      else if (status === 'max_tokens') logger.warn(`${agent}'s answer was cut off at max_tokens (${formatUsage(usage)})`);
+    }),
+    agentEvents.on('llm:request', ({ agent, model, messageCount, toolCount }) => {
+      logger.debug(`${agent} → ${model} (${messageCount} messages, ${toolCount} tools)`);
+    }),
+    agentEvents.on('tool:start', ({ agent, tool, input }) => {
+      logger.tool(tool, `Called by ${agent}:`, JSON.stringify(input).slice(0, 200));
+    }),
+    agentEvents.on('tool:end', ({ tool, error, blocked }) => {
+      if (blocked) logger.warn(`Tool ${tool} blocked:`, blocked);
+      else if (error) logger.error(`Tool ${tool} failed:`, error);
+    }),
+    agentEvents.on('delegation:start', ({ agent }) => {
+      logger.agent('Orchestrator', `Delegating to → ${agent}`);
+    }),
+    agentEvents.on('delegation:end', ({ agent, status, durationMs, error }) => {
+      if (error) logger.error(`Sub-agent ${agent} failed:`, error);
+      else logger.agent('Orchestrator', `← ${agent} ${status === 'completed' ? 'finished' : `stopped (${status})`} in ${(durationMs / 1000).toFixed(1)}s`);
+    }),
+  ];
+
+  detachLoggingFn = () => {
+    offs.forEach((off) => off());
+    detachLoggingFn = null;
+  };
+  return detachLoggingFn;
+}
+
+// ── Audit log ───────────────────────────────────────────────────────────────
+
+function truncate(value: unknown): unknown {
+  if (value === undefined) return undefined;
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > AUDIT_OUTPUT_CHARS ? `${text.slice(0, AUDIT_OUTPUT_CHARS)}…` : value;
+}
+
+/**
+ * Append one JSON line per finished tool call, delegation and agent run to
+ * `file`. Returns a function that stops auditing.
+ */
+export function attachAuditLog(file: string): () => void {
+  fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+
+  const write = (event: string, data: Record<string, unknown>): void => {
+    fs.appendFileSync(file, JSON.stringify({ ts: new Date().toISOString(), event, ...data }) + '\n');
+  };
+
+  const offs = [
+    agentEvents.on('tool:end', (e) => write('tool:end', { ...e, output: truncate(e.output) })),
+    agentEvents.on('delegation:end', (e) => write('delegation:end', { ...e, result: truncate(e.result) })),
+    agentEvents.on('run:end', (e) => write('run:end', { ...e, result: truncate(e.result) })),
+  ];
+  return () => offs.forEach((off) => off());
+}
+
+// ── Shell hooks ─────────────────────────────────────────────────────────────
+
+/**
+ * Whether `tool` matches a hook pattern such as `code_write_file|code_git_*`.
+ */
+export function matchesTool(pattern: string | undefined, tool: string): boolean {
+  if (!pattern || pattern === '*') return true;
+  return pattern.split('|').some((alt) => globToRegExp(alt.trim()).test(tool));
+}
+
+/**
+ * Run a hook command through the shell with `payload` as JSON on stdin.
+ * Never rejects: spawn errors and timeouts come back as a null exit code.
+ */
+export function runHookCommand(command: string, payload: unknown, timeoutMs = HOOK_TIMEOUT_MS): Promise<HookResult> {
+  return new Promise((resolve) => {
+    const child = spawn(command, { shell: true, stdio: ['pipe', 'pipe', 'pipe'] });
+    let stdout = '';
+    let stderr = '';
+
+    const timer = setTimeout(() => {
+      stderr += `\nHook timed out after ${timeoutMs / 1000}s`;
+      child.kill('SIGKILL');
+    }, timeoutMs);
+
+    child.stdout.on('data', (chunk: Buffer) => { stdout += chunk.toString(); });
+    child.stderr.on('data', (chunk: Buffer) => { stderr += chunk.toString(); });
+    child.on('error', (err) => {
+      clearTimeout(timer);
+      resolve({ code: null, stdout, stderr: stderr + err.message });
+    });
+    child.on('close', (code) => {
+      clearTimeout(timer);
+      resolve({ code, stdout, stderr });
+    });
+
+    // A hook that ignores stdin may exit before reading it
+    child.stdin.on('error', () => undefined);
+    child.stdin.end(JSON.stringify(payload));
+  });
+}
+
+/**
+ * Turn a preTool hook's result into a decision. Like a throwing JS hook, a
+ * hook that fails (non-zero exit, crash or timeout) blocks the call, with
+ * stderr as the reason. On success, stdout may be JSON `{"block": "..."}`
+ * or `{"input": {...}}`.
+ */
+function preToolDecision(hook: ShellHook, result: HookResult): ToolDecision {
+  if (result.code !== 0) {
+    return { block: result.stderr.trim() || `Hook "${hook.command}" failed (exit ${result.code ?? 'none'})` };
+  }
+
+  const out = result.stdout.trim();
+  if (!out.startsWith('{')) return;
+  try {
+    const parsed = JSON.parse(out) as { block?: unknown; input?: unknown };
+    if (typeof parsed.block === 'string') return { block: parsed.block };
+    if (parsed.input && typeof parsed.input === 'object') return { input: parsed.input as ToolInput };
+  } catch {
+    logger.warn(`preTool hook "${hook.command}" printed invalid JSON; ignoring its output`);
+  }
+}
+
+/**
+ * Register shell hooks from config. preTool hooks run in order before
+ * matching tool calls; postTool hooks receive the result and cannot
+ * affect the run. Returns a function that removes them.
+ */
+export function attachShellHooks(hooks: HooksConfig): () => void {
+  const offs: Array<() => void> = [];
+
+  for (const hook of hooks.preTool || []) {
+    offs.push(agentEvents.beforeTool(async (call) => {
+      if (!matchesTool(hook.match, call.tool)) return;
+      const result = await runHookCommand(hook.command, { event: 'preTool', ...call });
+      return preToolDecision(hook, result);
+    }));
+  }
+
+  for (const hook of hooks.postTool || []) {
+    offs.push(agentEvents.on('tool:end', (e) => {
+      if (e.blocked || !matchesTool(hook.match, e.tool)) return;
+      void runHookCommand(hook.command, { event: 'postTool', ...e, output: truncate(e.output) }).then((result) => {
+        if (result.code !== 0) {
+          logger.warn(`postTool hook "${hook.command}" failed for ${e.tool} (exit ${result.code ?? 'none'}):`, result.stderr.trim());
+        }
+      });
+    }));
+  }
+
+  return () => offs.forEach((off) => off());
+}
@@ -6,10 +6,24 @@
 // ============================================================================
 import { callLLM, extractText, extractToolUse } from '../llm/provider.js';
 import { SUB_AGENTS } from './sub-agents.js';
+import { emptyUsage, addUsage, usageOf } from '../llm/usage.js';
+import { resolveModel } from '../llm/profiles.js';
+import { describeAttachments } from '../utils/attachments.js';
+import { compactInPlace, estimateTextTokens } from './compaction.js';
+import { isAbortError, scopedSignal, throwIfAborted } from '../utils/abort.js';
+import { agentEvents } from './events.js';
+import { failureStatus, summarizeAtLimit } from './engine.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import config from '../config.js';
 import logger from '../utils/logger.js';
-import type { Message, ContentBlock, ToolDefinition } from '../types/index.js';
+import type { Message, ContentBlock, LLMCallOptions, RunStatus, ToolDefinition, ToolUseBlock, UsageTotals } from '../types/index.js';
 
-const ORCHESTRATOR_SYSTEM_PROMPT = `You are DEVWEAVER — the Next-level Intelligent System for Holistic Integration.
+/**
+ * The orchestrator's system prompt. Built per run so custom agents loaded
+ * at startup are listed with the built-in ones.
+ */
+function buildSystemPrompt(): string {
+  return `You are DEVWEAVER — the Next-level Intelligent System for Holistic Integration.
 You are the orchestrator of a powerful SDLC agent system. Your job is to understand what the user needs
 and delegate to the right sub-agent(s) to accomplish it.
 
@@ -31,7 +45,9 @@ COMPLEX TASK EXAMPLES:
 You can also answer general SDLC questions directly without delegating.
 
 IMPORTANT: If the user's intent maps to multiple sub-agents, call them one at a time in logical order,
-passing context from each result to the next.`;
+passing context from each result to the next. Only when tasks are independent of each other (for example
+reviewing one module while documenting another) delegate them in the same turn; those run in parallel.`;
+}
 
 /**
  * Build the orchestrator's special tool for delegating to sub-agents.
@@ -58,34 +74,111 @@ function buildDelegationTool(): ToolDefinition {
   };
 }
 
+export interface Delegation {
+  agent: string;
+  status: RunStatus;
+  result: string;
+  usage: UsageTotals;
+}
+
 interface OrchestrateResult {
   result: string;
-  delegations: Array<{ agent: string; result: string }>;
+  /** Whether the orchestrator finished or hit its loop limit; see RunStatus. */
+  status: RunStatus;
+  /** stop_reason of the orchestrator's last LLM response. */
+  stopReason: string;
+  delegations: Delegation[];
   conversationHistory: Message[];
+  /** Orchestrator calls plus every delegation. */
+  usage: UsageTotals;
+}
+
+export interface OrchestrateOptions {
+  /**
+   * Images / PDFs from the user. Not shown to the orchestrator itself (it
+   * only routes); they go to every sub-agent it delegates to, and the
+   * returned history records just their names.
+   */
+  attachments?: ContentBlock[];
+  /** Cancels the run, including any delegation in progress. */
+  signal?: AbortSignal;
+  /** Wall-clock limit in ms; defaults to `config.agent.timeoutMs` (0 = none). */
+  timeoutMs?: number;
+  /** Delegation rounds before a summary is forced; defaults to `config.agent.maxOrchestratorLoops`. */
+  maxLoops?: number;
+  /** Delegations from one turn that run at once; defaults to `config.agent.delegationConcurrency`. */
+  delegationConcurrency?: number;
 }
 
 /**
  * Run the orchestrator for a user message.
  */
-export async function orchestrate(userMessage: string, conversationHistory: Message[] = []): Promise<OrchestrateResult> {
+export async function orchestrate(
+  userMessage: string,
+  conversationHistory: Message[] = [],
+  options: OrchestrateOptions = {}
+): Promise<OrchestrateResult> {
+  const scope = scopedSignal(options.signal, options.timeoutMs ?? config.agent.timeoutMs, 'Orchestrator');
+  try {
+    return await orchestrateLoop(
+      userMessage,
+      conversationHistory,
+      options.attachments || [],
+      options.maxLoops ?? config.agent.maxOrchestratorLoops,
+      Math.max(1, options.delegationConcurrency ?? config.agent.delegationConcurrency),
+      scope.signal
+    );
+  } finally {
+    scope.dispose();
+  }
+}
+
+async function orchestrateLoop(
+  userMessage: string,
+  conversationHistory: Message[],
+  attachments: ContentBlock[],
+  maxLoops: number,
+  concurrency: number,
+  signal: AbortSignal
+): Promise<OrchestrateResult> {
   logger.agent('Orchestrator', `Received: "${userMessage.slice(0, 120)}..."`);
 
   const delegationTool = buildDelegationTool();
+  const attachmentNote = attachments.length > 0
+    ? `\n\n[Attached: ${describeAttachments(attachments)}. Sub-agents you delegate to receive these files.]`
+    : '';
   const messages: Message[] = [
     ...conversationHistory,
-    { role: 'user', content: userMessage },
+    { role: 'user', content: userMessage + attachmentNote },
   ];
 
   let finalResult = '';
-  const allDelegations: Array<{ agent: string; result: string }> = [];
-  const maxOrchestratorLoops = 10;
-
-  for (let i = 0; i < maxOrchestratorLoops; i++) {
-    const response = await callLLM({
-      systemPrompt: ORCHESTRATOR_SYSTEM_PROMPT,
-      messages,
-      tools: [delegationTool],
-    });
+  const allDelegations: Delegation[] = [];
+  const usage = emptyUsage();
+  let status: RunStatus = 'max_iterations';
+  let stopReason = 'none';
+  const { model, maxTokens } = resolveModel('orchestrator');
+  const systemPrompt = buildSystemPrompt();
+  const llmOptions: LLMCallOptions = {
+    systemPrompt,
+    messages,
+    tools: [delegationTool],
+    agentName: 'Orchestrator',
+    model,
+    maxTokens,
+    signal,
+  };
+
+  const overheadTokens = estimateTextTokens(systemPrompt + JSON.stringify(delegationTool));
+
+  for (let i = 0; i < maxLoops; i++) {
+    // Also keeps the REPL history bounded: it is this message list
+    throwIfAborted(signal);
+    await compactInPlace(messages, 'Orchestrator', overheadTokens, (u) => addUsage(usage, u), signal);
+
+    const response = await callLLM(llmOptions);
+    addUsage(usage, usageOf(response, response.model || model || config.llm.model));
+    stopReason = response.stop_reason;
 
     const text = extractText(response);
     if (text) finalResult = text;
@@ -95,58 +188,97 @@ export async function orchestrate(userMessage: string, conversationHistory: Mess
 
     if (toolUseBlocks.length === 0) {
       // Orchestrator is done
+      status = response.stop_reason === 'max_tokens' ? 'max_tokens' : 'completed';
       break;
     }
 
-    // Process delegations
+    // Delegations from one turn are independent of each other, so they run
+    // concurrently; a failing sub-agent only affects its own tool_result
+    const delegationCalls = toolUseBlocks.filter((tu) => tu.name === 'delegate_to_agent');
+    if (delegationCalls.length > 1) {
+      logger.agent('Orchestrator', `Running ${delegationCalls.length} delegations in parallel (up to ${concurrency} at a time)`);
+    }
+    const outcomes = await mapWithConcurrency(delegationCalls, concurrency, (tu) => runDelegation(tu, attachments, signal));
     const toolResults: ContentBlock[] = [];
-    for (const tu of toolUseBlocks) {
-      if (tu.name === 'delegate_to_agent') {
-        const input = tu.input as { agent: string; message: string };
-        const agentName = input.agent;
-        const message = input.message;
-        logger.agent('Orchestrator', `Delegating to → ${agentName}`);
-
-        const subAgent = SUB_AGENTS[agentName as keyof typeof SUB_AGENTS];
-        if (!subAgent) {
-          toolResults.push({
-            type: 'tool_result',
-            tool_use_id: tu.id,
-            content: `Error: Unknown agent "${agentName}"`,
-          });
-          continue;
-        }
-
-        try {
-          const result = await subAgent.fn({ message });
-          allDelegations.push({ agent: agentName, result: result.result });
-          toolResults.push({
-            type: 'tool_result',
-            tool_use_id: tu.id,
-            content: result.result || 'Sub-agent completed but returned no text.',
-          });
-        } catch (err) {
-          const errorMsg = err instanceof Error ? err.message : String(err);
-          logger.error(`Sub-agent ${agentName} failed:`, errorMsg);
-          toolResults.push({
-            type: 'tool_result',
-            tool_use_id: tu.id,
-            content: `Error from ${agentName}: ${errorMsg}`,
-          });
-        }
+    for (const outcome of outcomes) {
+      toolResults.push(outcome.toolResult);
+      if (outcome.delegation) {
+        allDelegations.push(outcome.delegation);
+        addUsage(usage, outcome.delegation.usage);
       }
     }
 
     messages.push({ role: 'user', content: toolResults });
   }
 
+  if (status === 'max_iterations') {
+    throwIfAborted(signal);
+    const summary = await summarizeAtLimit(llmOptions, maxLoops);
+    addUsage(usage, usageOf(summary, summary.model || model || config.llm.model));
+    stopReason = summary.stop_reason;
+    finalResult = extractText(summary) || finalResult;
+  }
+
   return {
     result: finalResult,
+    status,
+    stopReason,
     delegations: allDelegations,
     conversationHistory: messages,
+    usage,
   };
 }
 
+interface DelegationOutcome {
+  toolResult: ContentBlock;
+  /** Missing when the requested agent does not exist. */
+  delegation?: Delegation;
+}
+
+/**
+ * Run one delegate_to_agent call. Sub-agent failures become an error
+ * tool_result; only cancellation rejects.
+ */
+async function runDelegation(tu: ToolUseBlock, attachments: ContentBlock[], signal: AbortSignal): Promise<DelegationOutcome> {
+  const { agent: agentName, message } = tu.input as { agent: string; message: string };
+  const subAgent = SUB_AGENTS[agentName as keyof typeof SUB_AGENTS];
+  if (!subAgent) {
+    return { toolResult: { type: 'tool_result', tool_use_id: tu.id, content: `Error: Unknown agent "${agentName}"` } };
+  }
+
+  const startedAt = Date.now();
+  agentEvents.emit('delegation:start', { agent: agentName, message });
+  try {
+    const result = await subAgent.fn({ message, attachments, signal });
+    agentEvents.emit('delegation:end', {
+      agent: agentName,
+      status: result.status,
+      durationMs: Date.now() - startedAt,
+      result: result.result,
+      usage: result.usage,
+    });
+    const stoppedNote = result.status === 'completed'
+      ? ''
+      : `[${agentName} stopped before finishing (${result.status}); its summary follows]\n`;
+    return {
+      toolResult: {
+        type: 'tool_result',
+        tool_use_id: tu.id,
+        content: stoppedNote + (result.result || 'Sub-agent completed but returned no text.'),
+      },
+      delegation: { agent: agentName, status: result.status, result: result.result, usage: result.usage },
+    };
+  } catch (err) {
+    const errorMsg = err instanceof Error ? err.message : String(err);
+    agentEvents.emit('delegation:end', { agent: agentName, status: failureStatus(err), durationMs: Date.now() - startedAt, error: errorMsg });
+    if (isAbortError(err)) throw err;
+    return {
+      toolResult: { type: 'tool_result', tool_use_id: tu.id, content: `Error from ${agentName}: ${errorMsg}` },
+      delegation: { agent: agentName, status: 'error', result: errorMsg, usage: emptyUsage() },
+    };
+  }
+}
+
 /**
  * Quick-route: attempt to match a user message to a sub-agent without LLM call.
  * Returns the agent key or null.
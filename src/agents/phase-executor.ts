@@ -0,0 +1,292 @@
+// ============================================================================
+// DEVWEAVER – Phase Executor
+//
+// Runs the tasks of .planning/phase-N/PLAN.md as a DAG built from their
+// `depends` attributes: ready tasks run in fresh executor contexts up to a
+// concurrency limit, a failed task blocks only the tasks that depend on it,
+// and every status change is written to .planning/phase-N/EXECUTION.json so
+// an interrupted or failed phase resumes where it stopped. In a git repo each
+// task runs in its own worktree and its branch is merged back as it completes.
+// ============================================================================
+
+import fs from 'node:fs';
+import path from 'node:path';
+import config from '../config.js';
+import { agentEvents } from './events.js';
+import { failureStatus, type RunAgentResult } from './engine.js';
+import { spawnExecutor, useWorktrees, createExecutorWorktree, integrateTask } from './context-manager.js';
+import { runVerifiedTask, verificationEnabled } from './task-runner.js';
+import { emptyUsage, addUsage } from '../llm/usage.js';
+import { PLANNING_DIR } from '../utils/docs.js';
+import { loadPhasePlan, dependencyErrors, type PhasePlan, type PlanTask } from '../utils/plan.js';
+import { isAbortError, throwIfAborted } from '../utils/abort.js';
+import { withRepoRoot, isMerged, mergeTaskBranch, removeTaskWorktree, type TaskWorktree } from '../utils/git.js';
+import logger from '../utils/logger.js';
+import type { RunStatus, UsageTotals } from '../types/index.js';
+
+/**
+ * `pending`: not started. `blocked`: a task it depends on did not complete.
+ * `conflict`: completed, but its branch could not be merged back.
+ * Only `completed` counts as done; a task that stopped at a limit is rerun.
+ */
+export type TaskStatus = 'pending' | 'running' | 'blocked' | 'conflict' | RunStatus;
+
+export interface TaskRecord {
+  name: string;
+  depends: string[];
+  status: TaskStatus;
+  output?: string;
+  error?: string;
+  /** The dependency that did not complete, for `blocked` tasks. */
+  blockedBy?: string;
+  /** Task branch kept after a failure or merge conflict. */
+  branch?: string;
+  usage?: UsageTotals;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+/** A phase execution as checkpointed in EXECUTION.json. */
+export interface PhaseExecution {
+  phase: number;
+  status: 'running' | 'completed' | 'failed' | 'cancelled';
+  startedAt: string;
+  updatedAt: string;
+  /** Keyed by task id, in plan order. */
+  tasks: Record<string, TaskRecord>;
+  usage: UsageTotals;
+}
+
+export interface ExecutePhaseOptions {
+  /** Tasks run at once (default: `config.agent.taskConcurrency`). */
+  concurrency?: number;
+  /** Ignore EXECUTION.json and run every task again. */
+  restart?: boolean;
+  /** Cancels running tasks; the execution is checkpointed as cancelled. */
+  signal?: AbortSignal;
+  /** Run each task in its own git worktree (default: useWorktrees()). */
+  worktrees?: boolean;
+  /**
+   * Runs one task. Defaults to execute → verify → fix (runVerifiedTask), or
+   * the executor alone when `agents.verification` is off in config.json.
+   */
+  runTask?: (task: PlanTask, phaseNumber: number, signal?: AbortSignal) => Promise<RunAgentResult>;
+}
+
+/**
+ * Raised when a phase has no plan or its dependencies do not form a DAG.
+ */
+export class PhaseExecutionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PhaseExecutionError';
+  }
+}
+
+// ── Checkpoints ─────────────────────────────────────────────────────────────
+
+export function executionFile(phaseNumber: number): string {
+  return path.join(PLANNING_DIR, `phase-${phaseNumber}`, 'EXECUTION.json');
+}
+
+function saveExecution(execution: PhaseExecution): void {
+  execution.updatedAt = new Date().toISOString();
+  const file = executionFile(execution.phase);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  // Write then rename, so a crash mid-write never leaves a corrupt checkpoint
+  fs.writeFileSync(`${file}.tmp`, JSON.stringify(execution, null, 2));
+  fs.renameSync(`${file}.tmp`, file);
+}
+
+/**
+ * The last checkpointed execution of a phase, or null if it never ran.
+ */
+export function readPhaseExecution(phaseNumber: number): PhaseExecution | null {
+  const file = executionFile(phaseNumber);
+  return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf-8')) as PhaseExecution : null;
+}
+
+/**
+ * A fresh execution for `plan`, keeping completed and conflicted tasks
+ * from `previous`.
+ */
+function prepareExecution(phaseNumber: number, plan: PhasePlan, previous: PhaseExecution | null): PhaseExecution {
+  const now = new Date().toISOString();
+  const tasks: Record<string, TaskRecord> = {};
+  for (const task of plan.tasks) {
+    const earlier = previous?.tasks[task.id];
+    tasks[task.id] = earlier?.status === 'completed' || earlier?.status === 'conflict'
+      ? { ...earlier, name: task.name, depends: task.depends }
+      : { name: task.name, depends: task.depends, status: 'pending' };
+  }
+  return {
+    phase: phaseNumber,
+    status: 'running',
+    startedAt: previous?.startedAt ?? now,
+    updatedAt: now,
+    tasks,
+    usage: previous?.usage ?? emptyUsage(),
+  };
+}
+
+// ── Scheduler ───────────────────────────────────────────────────────────────
+
+/**
+ * Mark pending tasks whose dependencies failed or were blocked as `blocked`,
+ * transitively. Returns true when anything changed.
+ */
+function blockDependents(execution: PhaseExecution): boolean {
+  let changed = false;
+  let again = true;
+  while (again) {
+    again = false;
+    for (const [id, record] of Object.entries(execution.tasks)) {
+      if (record.status !== 'pending') continue;
+      const stopped = record.depends.find((dep) => {
+        const status = execution.tasks[dep]?.status;
+        return status !== undefined && status !== 'pending' && status !== 'running' && status !== 'completed';
+      });
+      if (stopped !== undefined) {
+        Object.assign(record, { status: 'blocked', blockedBy: stopped });
+        logger.warn(`Phase ${execution.phase} › task ${id} blocked: task ${stopped} did not complete`);
+        changed = again = true;
+      }
+    }
+  }
+  return changed;
+}
+
+/**
+ * On resume, retry the merge of a task whose branch conflicted. A branch
+ * merged by hand in the meantime counts as completed. Without worktrees
+ * the task is simply run again.
+ */
+function retryConflict(record: TaskRecord, phaseNumber: number, id: string, isolate: boolean): void {
+  if (!isolate || !record.branch) {
+    Object.assign(record, { status: 'pending' });
+    return;
+  }
+  const worktree: TaskWorktree = { repo: config.repo.localPath, dir: '', branch: record.branch };
+  if (isMerged(worktree.repo, worktree.branch) || mergeTaskBranch(worktree, `Merge phase ${phaseNumber} task ${id}: ${record.name}`).merged) {
+    removeTaskWorktree(worktree, { deleteBranch: true });
+    Object.assign(record, { status: 'completed' });
+    delete record.error;
+    delete record.branch;
+    logger.success(`Phase ${phaseNumber} › task ${id} merged`);
+  }
+}
+
+function isReady(record: TaskRecord, execution: PhaseExecution): boolean {
+  return record.status === 'pending' && record.depends.every((dep) => execution.tasks[dep]?.status === 'completed');
+}
+
+/**
+ * Execute a phase's PLAN.md. Continues from EXECUTION.json when it exists
+ * (tasks that completed are not run again) unless `restart` is set.
+ * Resolves with the checkpointed execution, whose status is `failed` if any
+ * task did not complete; rejects when cancelled, after running tasks have
+ * stopped and the execution is checkpointed.
+ */
+export async function executePhase(phaseNumber: number, options: ExecutePhaseOptions = {}): Promise<PhaseExecution> {
+  const { concurrency = config.agent.taskConcurrency, restart = false, signal, worktrees: isolate = useWorktrees() } = options;
+  const verify = verificationEnabled();
+  const runTask = options.runTask ?? ((task, phase, taskSignal) => (verify
+    ? runVerifiedTask(phase, task.id, { signal: taskSignal })
+    : spawnExecutor('', phase, task.id, taskSignal)));
+
+  const plan = loadPhasePlan(phaseNumber);
+  if (!plan) throw new PhaseExecutionError(`No plan for phase ${phaseNumber}: create ${path.join(PLANNING_DIR, `phase-${phaseNumber}`, 'PLAN.md')} first`);
+  const errors = dependencyErrors(plan);
+  if (errors.length > 0) throw new PhaseExecutionError(`Phase ${phaseNumber} plan is invalid: ${errors.join('; ')}`);
+
+  const previous = restart ? null : readPhaseExecution(phaseNumber);
+  const execution = prepareExecution(phaseNumber, plan, previous);
+  const tasksById = new Map(plan.tasks.map((t) => [t.id, t]));
+  for (const [id, record] of Object.entries(execution.tasks)) {
+    if (record.status === 'conflict') retryConflict(record, phaseNumber, id, isolate);
+  }
+  if (previous) {
+    const done = Object.values(execution.tasks).filter((t) => t.status === 'completed').length;
+    logger.agent('Phase', `Resuming phase ${phaseNumber} (${done}/${plan.tasks.length} tasks already completed)`);
+  }
+  saveExecution(execution);
+
+  const running = new Map<string, Promise<void>>();
+  let cancellation: unknown;
+
+  const start = (id: string): void => {
+    const task = tasksById.get(id) as PlanTask;
+    const record = execution.tasks[id] as TaskRecord;
+    const agent = `executor-phase${phaseNumber}-task${id}`;
+    const startedAt = new Date();
+    Object.assign(record, { status: 'running', startedAt: startedAt.toISOString() });
+    delete record.error;
+    delete record.blockedBy;
+    delete record.branch;
+    saveExecution(execution);
+    logger.agent('Phase', `Phase ${phaseNumber} › task ${id}: ${task.name}`);
+    agentEvents.emit('delegation:start', { agent, message: task.name });
+
+    const work = (async () => {
+      let worktree: TaskWorktree | undefined;
+      try {
+        worktree = isolate ? createExecutorWorktree(phaseNumber, id) : undefined;
+        const result = worktree
+          ? await withRepoRoot(worktree.dir, () => runTask(task, phaseNumber, signal))
+          : await runTask(task, phaseNumber, signal);
+        agentEvents.emit('delegation:end', { agent, status: result.status, durationMs: Date.now() - startedAt.getTime(), result: result.result, usage: result.usage });
+        addUsage(execution.usage, result.usage);
+        Object.assign(record, { status: result.status, output: result.result, usage: result.usage, finishedAt: new Date().toISOString() });
+        if (result.status !== 'completed') record.error = `Executor stopped early (${result.status})`;
+
+        // Tasks finish one at a time on this thread, so merges never overlap
+        if (worktree && result.status === 'completed') {
+          const merge = integrateTask(worktree, phaseNumber, id, task.name);
+          if (merge.merged) worktree = undefined;
+          else Object.assign(record, { status: 'conflict', error: merge.conflicts.length > 0 ? `Merge conflict in ${merge.conflicts.join(', ')}` : merge.error });
+        }
+      } catch (err) {
+        const error = err instanceof Error ? err.message : String(err);
+        const status = failureStatus(err);
+        agentEvents.emit('delegation:end', { agent, status, durationMs: Date.now() - startedAt.getTime(), error });
+        Object.assign(record, { status, error, finishedAt: new Date().toISOString() });
+        if (isAbortError(err)) cancellation ??= err;
+        else logger.error(`Phase ${phaseNumber} › task ${id} failed:`, error);
+      }
+      if (worktree) {
+        // Keep the branch (with anything the executor committed) for inspection
+        record.branch = worktree.branch;
+        try {
+          removeTaskWorktree(worktree);
+        } catch (err) {
+          logger.warn(`Could not remove worktree ${worktree.dir}:`, err instanceof Error ? err.message : String(err));
+        }
+      }
+      saveExecution(execution);
+    })();
+    running.set(id, work.finally(() => running.delete(id)));
+  };
+
+  for (;;) {
+    if (blockDependents(execution)) saveExecution(execution);
+    if (cancellation === undefined && !signal?.aborted) {
+      for (const [id, record] of Object.entries(execution.tasks)) {
+        if (running.size >= Math.max(1, concurrency)) break;
+        if (isReady(record, execution)) start(id);
+      }
+    }
+    if (running.size === 0) break;
+    await Promise.race(running.values());
+  }
+
+  if (cancellation !== undefined || signal?.aborted) {
+    execution.status = 'cancelled';
+    saveExecution(execution);
+    if (cancellation !== undefined) throw cancellation;
+    throwIfAborted(signal);
+  }
+
+  execution.status = Object.values(execution.tasks).every((t) => t.status === 'completed') ? 'completed' : 'failed';
+  saveExecution(execution);
+  return execution;
+}
@@ -0,0 +1,297 @@
+// ============================================================================
+// DEVWEAVER – REPL Sessions
+//
+// Persists the REPL conversation to <sessions dir>/<id>.json after every
+// turn, together with the delegations and tool calls each turn made, so a
+// crash or /quit loses nothing. Sessions can be named, listed, resumed and
+// exported as a Markdown transcript.
+// ============================================================================
+
+import fs from 'node:fs';
+import path from 'node:path';
+import config from '../config.js';
+import { agentEvents } from './events.js';
+import { emptyUsage, addUsage, formatUsage } from '../llm/usage.js';
+import logger from '../utils/logger.js';
+import type { Message, RunStatus, ToolInput, UsageTotals } from '../types/index.js';
+
+const OUTPUT_CHARS = 2000;
+
+export interface SessionToolCall {
+  agent: string;
+  tool: string;
+  input: ToolInput;
+  durationMs: number;
+  /** Truncated to a few thousand characters. */
+  output?: string;
+  error?: string;
+  blocked?: string;
+}
+
+export interface SessionDelegation {
+  agent: string;
+  message: string;
+  /** Missing while the delegation is still running. */
+  status?: RunStatus;
+  durationMs?: number;
+  result?: string;
+  error?: string;
+}
+
+export interface SessionTurn {
+  at: string;
+  input: string;
+  /** The final answer; missing while the turn is running or if it failed. */
+  result?: string;
+  status?: RunStatus;
+  error?: string;
+  delegations: SessionDelegation[];
+  toolCalls: SessionToolCall[];
+  usage?: UsageTotals;
+}
+
+export interface Session {
+  id: string;
+  /** Set with /save; /resume accepts it in place of the id. */
+  name?: string;
+  createdAt: string;
+  updatedAt: string;
+  /** The orchestrator conversation, restored by /resume. */
+  messages: Message[];
+  turns: SessionTurn[];
+  usage: UsageTotals;
+}
+
+export interface SessionSummary {
+  id: string;
+  name?: string;
+  updatedAt: string;
+  turns: number;
+  /** The first user input, as a title. */
+  title: string;
+}
+
+export interface TurnOutcome {
+  result: string;
+  status: RunStatus;
+  usage: UsageTotals;
+  /** The conversation after the turn; omit for turns outside it (/direct, /workflow). */
+  messages?: Message[];
+}
+
+function truncate(text: string): string {
+  return text.length > OUTPUT_CHARS ? `${text.slice(0, OUTPUT_CHARS)}…` : text;
+}
+
+function newSessionId(): string {
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace('T', '-').slice(0, 15);
+  return `${stamp}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+class SessionStore {
+  private session: Session | null = null;
+  private turn: SessionTurn | null = null;
+  private attached = false;
+
+  /** The sessions directory, relative to the repo unless absolute. */
+  get directory(): string {
+    return path.resolve(config.repo.localPath, config.sessions.directory);
+  }
+
+  /** The session turns are recorded into; started on first use. */
+  get current(): Session {
+    if (!this.session) {
+      const now = new Date().toISOString();
+      this.session = { id: newSessionId(), createdAt: now, updatedAt: now, messages: [], turns: [], usage: emptyUsage() };
+    }
+    return this.session;
+  }
+
+  /**
+   * Start recording a turn: delegations and tool calls made until
+   * endTurn / failTurn are attached to it.
+   */
+  beginTurn(input: string): void {
+    this.attach();
+    this.turn = { at: new Date().toISOString(), input, delegations: [], toolCalls: [] };
+    this.current.turns.push(this.turn);
+    this.save();
+  }
+
+  endTurn(outcome: TurnOutcome): void {
+    const session = this.current;
+    if (this.turn) Object.assign(this.turn, { result: outcome.result, status: outcome.status, usage: outcome.usage });
+    if (outcome.messages) session.messages = outcome.messages;
+    addUsage(session.usage, outcome.usage);
+    this.turn = null;
+    this.save();
+  }
+
+  failTurn(status: RunStatus, error: string): void {
+    if (this.turn) Object.assign(this.turn, { status, error });
+    this.turn = null;
+    this.save();
+  }
+
+  /**
+   * Write the current session to disk. Sessions without turns are not saved.
+   */
+  save(): void {
+    const session = this.session;
+    if (!session || session.turns.length === 0) return;
+    session.updatedAt = new Date().toISOString();
+    fs.mkdirSync(this.directory, { recursive: true });
+    const file = path.join(this.directory, `${session.id}.json`);
+    // Write then rename, so a crash mid-write never corrupts the session
+    fs.writeFileSync(`${file}.tmp`, JSON.stringify(session, null, 2));
+    fs.renameSync(`${file}.tmp`, file);
+  }
+
+  /**
+   * Name the current session and save it.
+   */
+  rename(name: string): void {
+    this.current.name = name;
+    this.save();
+  }
+
+  /**
+   * Saved sessions, most recently updated first.
+   */
+  list(): SessionSummary[] {
+    return this.readAll().map((s) => ({
+      id: s.id,
+      name: s.name,
+      updatedAt: s.updatedAt,
+      turns: s.turns.length,
+      title: s.turns[0]?.input.slice(0, 80) || '',
+    }));
+  }
+
+  /**
+   * Load a saved session by id, name or id prefix. Returns null when none
+   * or more than one matches.
+   */
+  find(idOrName: string): Session | null {
+    const all = this.readAll();
+    const exact = all.find((s) => s.id === idOrName) || all.find((s) => s.name === idOrName);
+    if (exact) return exact;
+    const byPrefix = all.filter((s) => s.id.startsWith(idOrName));
+    return byPrefix.length === 1 ? byPrefix[0] as Session : null;
+  }
+
+  /**
+   * Make a saved session current; later turns are appended to it.
+   */
+  resume(session: Session): void {
+    this.session = session;
+    this.turn = null;
+  }
+
+  /**
+   * Forget the current session (the next turn starts a new one).
+   */
+  reset(): void {
+    this.session = null;
+    this.turn = null;
+  }
+
+  /**
+   * Every saved session, newest first. Unreadable files are skipped with a
+   * warning, so one bad file never hides the others.
+   */
+  private readAll(): Session[] {
+    if (!fs.existsSync(this.directory)) return [];
+    const all: Session[] = [];
+    for (const f of fs.readdirSync(this.directory).filter((name) => name.endsWith('.json'))) {
+      const file = path.join(this.directory, f);
+      try {
+        const session = JSON.parse(fs.readFileSync(file, 'utf-8')) as Session;
+        if (typeof session.updatedAt !== 'string' || !Array.isArray(session.turns)) throw new Error('not a session');
+        all.push(session);
+      } catch (err) {
+        logger.warn(`Skipping session file ${file}:`, err instanceof Error ? err.message : String(err));
+      }
+    }
+    return all.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  private attach(): void {
+    if (this.attached) return;
+    this.attached = true;
+    agentEvents.on('delegation:start', ({ agent, message }) => {
+      this.turn?.delegations.push({ agent, message });
+    });
+    agentEvents.on('delegation:end', ({ agent, status, durationMs, result, error }) => {
+      // Parallel delegations can end in any order; match the oldest open one
+      const open = this.turn?.delegations.find((d) => d.agent === agent && !d.status);
+      if (open) Object.assign(open, { status, durationMs, result, error });
+    });
+    agentEvents.on('tool:end', ({ agent, tool, input, durationMs, output, error, blocked }) => {
+      this.turn?.toolCalls.push({
+        agent, tool, input, durationMs, error, blocked,
+        output: output === undefined ? undefined : truncate(typeof output === 'string' ? output : JSON.stringify(output)),
+      });
+    });
+  }
+}
+
+// ── Markdown export ─────────────────────────────────────────────────────────
+
+function seconds(ms?: number): string {
+  return ms === undefined ? '' : `, ${(ms / 1000).toFixed(1)}s`;
+}
+
+/**
+ * Render a session as a Markdown transcript: each turn's input and answer,
+ * its delegations with their results, and the tool calls made.
+ */
+export function sessionToMarkdown(session: Session): string {
+  const lines = [
+    `# DEVWEAVER session ${session.name ? `"${session.name}" ` : ''}(${session.id})`,
+    '',
+    `Started ${session.createdAt} · last updated ${session.updatedAt} · ${session.turns.length} turn(s) · ${formatUsage(session.usage)}`,
+  ];
+
+  session.turns.forEach((turn, i) => {
+    lines.push('', `## Turn ${i + 1} — ${turn.at}`, '', '**You:**', '', turn.input);
+
+    if (turn.delegations.length > 0) {
+      lines.push('', '### Delegations');
+      for (const d of turn.delegations) {
+        lines.push('', `- **${d.agent}** (${d.status || 'running'}${seconds(d.durationMs)}): ${d.message.split('\n')[0]}`);
+        if (d.error) lines.push(`  - Error: ${d.error}`);
+        if (d.result) lines.push('', '  <details><summary>Result</summary>', '', d.result, '', '  </details>');
+      }
+    }
+
+    if (turn.toolCalls.length > 0) {
+      lines.push('', '### Tool calls', '');
+      for (const call of turn.toolCalls) {
+        const outcome = call.blocked ? `blocked: ${call.blocked}` : call.error ? `error: ${call.error}` : 'ok';
+        lines.push(`- \`${call.tool}\` by ${call.agent} (${outcome}${seconds(call.durationMs)}) — \`${JSON.stringify(call.input).slice(0, 200).replace(/`/g, "'")}\``);
+      }
+    }
+
+    lines.push('', '**DEVWEAVER:**', '');
+    if (turn.result !== undefined) lines.push(turn.result || '_(no text)_');
+    else if (turn.error) lines.push(`_${turn.status === 'cancelled' ? 'Cancelled' : 'Failed'}: ${turn.error}_`);
+    else lines.push('_(no answer recorded)_');
+    if (turn.status && turn.status !== 'completed' && turn.result !== undefined) lines.push('', `_Stopped early: ${turn.status}_`);
+  });
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Write a session's Markdown transcript to `file`.
+ */
+export function exportSession(session: Session, file: string): string {
+  const target = path.resolve(file);
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  fs.writeFileSync(target, sessionToMarkdown(session));
+  return target;
+}
+
+// Singleton
+export const sessions = new SessionStore();
@@ -6,7 +6,9 @@
 // ============================================================================
 import { runAgent } from './engine.js';
 import registry from '../tools/registry.js';
+import { resolveModel } from '../llm/profiles.js';
 import type { RunAgentResult } from './engine.js';
+import type { ContentBlock } from '../types/index.js';
 
 /** Helper: find any MCP-registered tools whose name contains one of the keywords */
 function getMCPToolNames(keywords: string[]): string[] {
@@ -16,10 +18,19 @@ function getMCPToolNames(keywords: string[]): string[] {
   });
 }
 
+/** What the orchestrator (or `/direct`) hands a sub-agent. */
+export interface SubAgentInput {
+  message: string;
+  /** Images / PDFs attached by the user, sent with the first user message. */
+  attachments?: ContentBlock[];
+  /** Cancels the sub-agent run. */
+  signal?: AbortSignal;
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // 1. FEATURE ANALYSIS AGENT
 // ─────────────────────────────────────────────────────────────────────────────
-async function featureAnalysisAgent(input: { message: string }): Promise<RunAgentResult> {
+async function featureAnalysisAgent(input: SubAgentInput): Promise<RunAgentResult> {
   const systemPrompt = `You are DEVWEAVER's Feature Analysis Agent — an expert at requirement analysis and feature planning.
 
 YOUR RESPONSIBILITIES:
@@ -44,16 +55,18 @@ WORKFLOW:
 
 REQUIREMENT SOURCES YOU HANDLE:
 - Written statements / PRDs
-- Diagrams (described textually)
-- Wireframe descriptions
+- Diagrams and wireframes (attached images / PDFs, or described textually)
 - Existing Confluence docs
 
 OUTPUT: A comprehensive analysis document, optionally with Jira ticket creation.`;
 
   return runAgent({
     name: 'FeatureAnalysis',
+    ...resolveModel('feature_analysis'),
     systemPrompt,
     userMessage: input.message,
+    attachments: input.attachments,
+    signal: input.signal,
     toolNames: [
       'code_analyze_repo', 'code_project_tree', 'code_read_file', 'code_search',
       'code_list_directory', 'skills_list', 'skills_get', 'skills_save',
@@ -67,7 +80,7 @@ OUTPUT: A comprehensive analysis document, optionally with Jira ticket creation.
 // ─────────────────────────────────────────────────────────────────────────────
 // 2. JIRA MANAGEMENT AGENT
 // ─────────────────────────────────────────────────────────────────────────────
-async function jiraAgent(input: { message: string }): Promise<RunAgentResult> {
+async function jiraAgent(input: SubAgentInput): Promise<RunAgentResult> {
   const systemPrompt = `You are DEVWEAVER's Jira Management Agent — you handle all Jira-related operations.
 
 YOUR RESPONSIBILITIES:
@@ -82,8 +95,11 @@ If MCP Jira tools are available, prefer those over the built-in Jira tools.`;
 
   return runAgent({
     name: 'JiraManager',
+    ...resolveModel('jira_management'),
     systemPrompt,
     userMessage: input.message,
+    attachments: input.attachments,
+    signal: input.signal,
     toolNames: [
       'jira_create_issue', 'jira_get_issue', 'jira_update_issue',
       'jira_add_comment', 'jira_transition_issue', 'jira_search',
@@ -96,7 +112,7 @@ If MCP Jira tools are available, prefer those over the built-in Jira tools.`;
 // ─────────────────────────────────────────────────────────────────────────────
 // 3. CODE ANALYSIS AGENT
 // ─────────────────────────────────────────────────────────────────────────────
-async function codeAnalysisAgent(input: { message: string }): Promise<RunAgentResult> {
+async function codeAnalysisAgent(input: SubAgentInput): Promise<RunAgentResult> {
   const systemPrompt = `You are DEVWEAVER's Code Analysis Agent — you deeply understand codebases.
 
 YOUR RESPONSIBILITIES:
@@ -120,8 +136,11 @@ After analysis, ALWAYS save key findings using skills_save with appropriate cate
 
   return runAgent({
     name: 'CodeAnalysis',
+    ...resolveModel('code_analysis'),
     systemPrompt,
     userMessage: input.message,
+    attachments: input.attachments,
+    signal: input.signal,
     toolNames: [
       'code_analyze_repo', 'code_project_tree', 'code_read_file',
       'code_search', 'code_list_directory', 'code_git_status',
@@ -134,7 +153,7 @@ After analysis, ALWAYS save key findings using skills_save with appropriate cate
 // ─────────────────────────────────────────────────────────────────────────────
 // 4. CODE WRITER AGENT
 // ─────────────────────────────────────────────────────────────────────────────
-async function codeWriterAgent(input: { message: string }): Promise<RunAgentResult> {
+async function codeWriterAgent(input: SubAgentInput): Promise<RunAgentResult> {
   const systemPrompt = `You are DEVWEAVER's Code Writer Agent — you write production-quality code.
 
 YOUR RESPONSIBILITIES:
@@ -160,8 +179,11 @@ RULES:
 
   return runAgent({
     name: 'CodeWriter',
+    ...resolveModel('code_writer'),
     systemPrompt,
     userMessage: input.message,
+    attachments: input.attachments,
+    signal: input.signal,
     toolNames: [
       'code_analyze_repo', 'code_project_tree', 'code_read_file',
       'code_write_file', 'code_search', 'code_list_directory',
@@ -174,7 +196,7 @@ RULES:
 // ─────────────────────────────────────────────────────────────────────────────
 // 5. CODE TEST AGENT
 // ─────────────────────────────────────────────────────────────────────────────
-async function codeTestAgent(input: { message: string }): Promise<RunAgentResult> {
+async function codeTestAgent(input: SubAgentInput): Promise<RunAgentResult> {
   const systemPrompt = `You are DEVWEAVER's Testing Agent — you write and manage tests.
 
 YOUR RESPONSIBILITIES:
@@ -201,8 +223,11 @@ Write comprehensive tests covering:
 
   return runAgent({
     name: 'TestWriter',
+    ...resolveModel('code_test'),
     systemPrompt,
     userMessage: input.message,
+    attachments: input.attachments,
+    signal: input.signal,
     toolNames: [
       'code_analyze_repo', 'code_project_tree', 'code_read_file',
       'code_write_file', 'code_search', 'code_list_directory',
@@ -214,7 +239,7 @@ Write comprehensive tests covering:
 // ─────────────────────────────────────────────────────────────────────────────
 // 6. CODE REVIEW AGENT
 // ─────────────────────────────────────────────────────────────────────────────
-async function codeReviewAgent(input: { message: string }): Promise<RunAgentResult> {
+async function codeReviewAgent(input: SubAgentInput): Promise<RunAgentResult> {
   const systemPrompt = `You are DEVWEAVER's Code Review Agent — you provide thorough, constructive code reviews.
 
 YOUR RESPONSIBILITIES:
@@ -244,8 +269,11 @@ WORKFLOW:
 
   return runAgent({
     name: 'CodeReview',
+    ...resolveModel('code_review'),
     systemPrompt,
     userMessage: input.message,
+    attachments: input.attachments,
+    signal: input.signal,
     toolNames: [
       'code_analyze_repo', 'code_project_tree', 'code_read_file',
       'code_search', 'code_list_directory', 'code_git_diff', 'code_git_status',
@@ -260,7 +288,7 @@ WORKFLOW:
 // ─────────────────────────────────────────────────────────────────────────────
 // 7. CONFLUENCE / DOCUMENT MANAGEMENT AGENT
 // ─────────────────────────────────────────────────────────────────────────────
-async function documentAgent(input: { message: string }): Promise<RunAgentResult> {
+async function documentAgent(input: SubAgentInput): Promise<RunAgentResult> {
   const systemPrompt = `You are DEVWEAVER's Document Management Agent — you manage Confluence pages and project documentation.
 
 YOUR RESPONSIBILITIES:
@@ -283,8 +311,11 @@ If MCP Confluence tools are available, prefer those.`;
 
   return runAgent({
     name: 'DocumentManager',
+    ...resolveModel('document_management'),
     systemPrompt,
     userMessage: input.message,
+    attachments: input.attachments,
+    signal: input.signal,
     toolNames: [
       'confluence_get_page', 'confluence_search', 'confluence_create_page',
       'confluence_update_page', 'confluence_delete_page', 'confluence_add_comment',
@@ -298,7 +329,7 @@ If MCP Confluence tools are available, prefer those.`;
 // ─────────────────────────────────────────────────────────────────────────────
 // 8. DIAGRAM GENERATION AGENT
 // ─────────────────────────────────────────────────────────────────────────────
-async function diagramAgent(input: { message: string }): Promise<RunAgentResult> {
+async function diagramAgent(input: SubAgentInput): Promise<RunAgentResult> {
   const systemPrompt = `You are DEVWEAVER's Diagram Agent — you create and interpret diagrams.
 
 YOUR RESPONSIBILITIES:
@@ -309,7 +340,7 @@ YOUR RESPONSIBILITIES:
    - Class diagrams
    - State diagrams
    - Wireframe descriptions (as structured text)
-2. Interpret diagram descriptions and convert to requirements
+2. Interpret diagrams and wireframes (attached images, or descriptions) and convert to requirements
 3. Save diagrams as files in the project
 
 OUTPUT FORMAT: Always produce Mermaid diagram syntax that can be rendered.
@@ -317,8 +348,11 @@ When creating wireframes, produce detailed structured descriptions with componen
 
   return runAgent({
     name: 'DiagramGenerator',
+    ...resolveModel('diagram_generation'),
     systemPrompt,
     userMessage: input.message,
+    attachments: input.attachments,
+    signal: input.signal,
     toolNames: [
       'code_read_file', 'code_write_file', 'code_project_tree',
       'code_analyze_repo', 'skills_list', 'skills_get',
@@ -328,10 +362,12 @@ When creating wireframes, produce detailed structured descriptions with componen
 
 // ── Export map ───────────────────────────────────────────────────────────────
 
-interface SubAgentDefinition {
-  fn: (input: { message: string }) => Promise<RunAgentResult>;
+export interface SubAgentDefinition {
+  fn: (input: SubAgentInput) => Promise<RunAgentResult>;
   description: string;
   triggers: string[];
+  /** File a custom agent was loaded from; unset for built-in agents. */
+  source?: string;
 }
 
 export const SUB_AGENTS: Record<string, SubAgentDefinition> = {
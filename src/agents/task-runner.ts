@@ -0,0 +1,168 @@
+// ============================================================================
+// DEVWEAVER – Verified Task Runner
+//
+// Runs one PLAN.md task as execute → verify → fix: the executor does the
+// work, the verifier returns a structured PASS/FAIL verdict, and on FAIL the
+// executor runs again with the verifier's evidence, up to a limit. Every
+// attempt and verdict is appended to .planning/phase-N/attempts/task-M.json;
+// a task that never passes is recorded as a blocker in STATE.md.
+// ============================================================================
+
+import fs from 'node:fs';
+import path from 'node:path';
+import config from '../config.js';
+import { spawnExecutor, spawnVerifier, type VerifierVerdict } from './context-manager.js';
+import type { RunAgentResult } from './engine.js';
+import { emptyUsage, addUsage } from '../llm/usage.js';
+import { PLANNING_DIR, addBlocker, readConfig } from '../utils/docs.js';
+import logger from '../utils/logger.js';
+import type { RunStatus, UsageTotals } from '../types/index.js';
+
+export interface TaskAttempt {
+  attempt: number;
+  startedAt: string;
+  finishedAt?: string;
+  /** Verifier feedback the executor was given; missing on a first attempt. */
+  feedback?: string;
+  executor?: { status: RunStatus; result: string };
+  verifier?: { status: RunStatus; result: string };
+  verdict?: VerifierVerdict;
+}
+
+/** Everything tried for one task, across runs. */
+export interface TaskAttemptLog {
+  phase: number;
+  task: string;
+  attempts: TaskAttempt[];
+}
+
+export interface VerifiedTaskOptions {
+  /** Executor runs before giving up (default: `config.agent.verifyAttempts`). */
+  maxAttempts?: number;
+  /** Instructions for the executor on every attempt. */
+  instructions?: string;
+  signal?: AbortSignal;
+  /** Replace the executor or verifier (both default to fresh contexts). */
+  execute?: (instructions: string, signal?: AbortSignal) => Promise<RunAgentResult>;
+  verify?: (signal?: AbortSignal) => Promise<RunAgentResult<VerifierVerdict>>;
+}
+
+/**
+ * Raised when a task still fails verification after the last attempt.
+ */
+export class TaskVerificationError extends Error {
+  verdict?: VerifierVerdict;
+
+  constructor(message: string, verdict?: VerifierVerdict) {
+    super(message);
+    this.name = 'TaskVerificationError';
+    this.verdict = verdict;
+  }
+}
+
+// ── Attempt log ─────────────────────────────────────────────────────────────
+
+export function attemptLogFile(phaseNumber: number, taskId: number | string): string {
+  return path.join(PLANNING_DIR, `phase-${phaseNumber}`, 'attempts', `task-${taskId}.json`);
+}
+
+/**
+ * Every attempt recorded for a task, oldest first.
+ */
+export function readAttemptLog(phaseNumber: number, taskId: number | string): TaskAttemptLog {
+  const file = attemptLogFile(phaseNumber, taskId);
+  return fs.existsSync(file)
+    ? JSON.parse(fs.readFileSync(file, 'utf-8')) as TaskAttemptLog
+    : { phase: phaseNumber, task: String(taskId), attempts: [] };
+}
+
+function saveAttemptLog(log: TaskAttemptLog): void {
+  const file = attemptLogFile(log.phase, log.task);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  // Write then rename, so a crash mid-write never leaves a corrupt log
+  fs.writeFileSync(`${file}.tmp`, JSON.stringify(log, null, 2));
+  fs.renameSync(`${file}.tmp`, file);
+}
+
+// ── Runner ──────────────────────────────────────────────────────────────────
+
+/**
+ * Whether tasks are verified: `agents.verification` in .planning/config.json
+ * (on unless set to false).
+ */
+export function verificationEnabled(): boolean {
+  const agents = readConfig()?.agents as { verification?: unknown } | undefined;
+  return agents?.verification !== false;
+}
+
+/**
+ * The verifier's findings as instructions for the executor's next attempt.
+ */
+function feedbackFor(verdict: VerifierVerdict, attempt: number, maxAttempts: number, instructions: string): string {
+  return [
+    instructions,
+    `Attempt ${attempt} of ${maxAttempts}. The previous attempt FAILED verification; its changes are still in the repository. Fix what the verifier found:`,
+    verdict.summary,
+    ...(verdict.failures.length > 0 ? ['Not met:', ...verdict.failures.map((f) => `- ${f}`)] : []),
+    ...(verdict.evidence.length > 0 ? ['Evidence:', ...verdict.evidence.map((e) => `- ${e}`)] : []),
+  ].filter(Boolean).join('\n');
+}
+
+/**
+ * Run a task until the verifier passes it, at most `maxAttempts` times.
+ * Resolves with the last executor result (its `output` is the passing
+ * verdict and `usage` covers every attempt), marked `completed` even if the
+ * executor stopped at a limit: the verdict decides. Rejects with a
+ * TaskVerificationError, after adding a STATE.md blocker, when no attempt
+ * passes; errors and cancellation from the agents are passed through.
+ */
+export async function runVerifiedTask(
+  phaseNumber: number,
+  taskId: number | string,
+  options: VerifiedTaskOptions = {}
+): Promise<RunAgentResult<VerifierVerdict>> {
+  const { maxAttempts = config.agent.verifyAttempts, instructions = '', signal } = options;
+  const execute = options.execute ?? ((text, s) => spawnExecutor(text, phaseNumber, taskId, s));
+  const verify = options.verify ?? ((s) => spawnVerifier(instructions, phaseNumber, taskId, s));
+
+  const log = readAttemptLog(phaseNumber, taskId);
+  const usage: UsageTotals = emptyUsage();
+  let feedback = '';
+  let verdict: VerifierVerdict | undefined;
+
+  for (let attempt = 1; attempt <= Math.max(1, maxAttempts); attempt++) {
+    const record: TaskAttempt = { attempt: log.attempts.length + 1, startedAt: new Date().toISOString(), ...(feedback ? { feedback } : {}) };
+    log.attempts.push(record);
+    saveAttemptLog(log);
+
+    const executed = await execute(feedback || instructions, signal);
+    addUsage(usage, executed.usage);
+    record.executor = { status: executed.status, result: executed.result };
+    saveAttemptLog(log);
+
+    const verified = await verify(signal);
+    addUsage(usage, verified.usage);
+    verdict = verified.output ?? {
+      verdict: 'FAIL',
+      summary: `The verifier gave no verdict (${verified.status}).`,
+      evidence: verified.result ? [verified.result] : [],
+      failures: [],
+    };
+    Object.assign(record, { verifier: { status: verified.status, result: verified.result }, verdict, finishedAt: new Date().toISOString() });
+    saveAttemptLog(log);
+
+    if (verdict.verdict === 'PASS') {
+      logger.success(`Phase ${phaseNumber} › task ${taskId} passed verification (attempt ${attempt})`);
+      return { ...executed, status: 'completed', output: verdict, usage };
+    }
+    logger.warn(`Phase ${phaseNumber} › task ${taskId} failed verification (attempt ${attempt}/${maxAttempts}): ${verdict.summary}`);
+    feedback = feedbackFor(verdict, attempt + 1, maxAttempts, instructions);
+  }
+
+  const failures = verdict?.failures.length ? ` Not met: ${verdict.failures.join('; ')}.` : '';
+  addBlocker(
+    `Task ${taskId} failed verification after ${maxAttempts} attempt(s): ${verdict?.summary}${failures} See ${attemptLogFile(phaseNumber, taskId)}.`,
+    phaseNumber
+  );
+  throw new TaskVerificationError(`Task ${taskId} failed verification after ${maxAttempts} attempt(s): ${verdict?.summary}`, verdict);
+}
@@ -0,0 +1,374 @@
+// ============================================================================
+// DEVWEAVER – Workflows
+//
+// Declarative multi-agent pipelines from `workflows` in .planning/config.json.
+// Each step names a sub-agent and an input template that can reference the
+// workflow input and earlier step outputs; `when` makes a step conditional.
+// Every step is checkpointed to .planning/workflows/runs/<run>.json so a
+// failed or cancelled run can resume from the step that stopped it.
+// ============================================================================
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { SUB_AGENTS } from './sub-agents.js';
+import { agentEvents } from './events.js';
+import { failureStatus } from './engine.js';
+import { emptyUsage, addUsage } from '../llm/usage.js';
+import { PLANNING_DIR, readConfig } from '../utils/docs.js';
+import { validateSchema } from '../utils/schema.js';
+import { isAbortError, throwIfAborted } from '../utils/abort.js';
+import logger from '../utils/logger.js';
+import type { JSONSchema, RunStatus, UsageTotals } from '../types/index.js';
+
+export const WORKFLOW_RUNS_DIR = path.join(PLANNING_DIR, 'workflows', 'runs');
+
+/** `pending`: not reached yet. `skipped`: its `when` condition was false. */
+export type StepStatus = 'pending' | 'skipped' | RunStatus;
+
+export interface StepCondition {
+  /** Id of an earlier step. */
+  step: string;
+  /** Run only if that step ended with (one of) this status. */
+  status?: StepStatus | StepStatus[];
+  /** Run only if that step's output contains this text (case-insensitive). */
+  contains?: string;
+  /** Run only if that step's output does not contain this text (case-insensitive). */
+  notContains?: string;
+}
+
+export interface WorkflowStep {
+  id: string;
+  /** Sub-agent key, as listed by /agents. */
+  agent: string;
+  /**
+   * Message for the agent. `{{input}}` is the workflow input;
+   * `{{steps.<id>.output}}` and `{{steps.<id>.status}}` refer to earlier steps.
+   */
+  input: string;
+  when?: StepCondition;
+  /** Carry on with the next step when this one fails. */
+  continueOnError?: boolean;
+}
+
+export interface WorkflowDefinition {
+  description?: string;
+  steps: WorkflowStep[];
+}
+
+export interface StepRecord {
+  status: StepStatus;
+  agent: string;
+  message?: string;
+  output?: string;
+  error?: string;
+  usage?: UsageTotals;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+/** A workflow run as checkpointed on disk. */
+export interface WorkflowRun {
+  id: string;
+  workflow: string;
+  input: string;
+  status: 'running' | 'completed' | 'failed' | 'cancelled';
+  /** The step that failed or was cancelled, for resuming. */
+  failedStep?: string;
+  startedAt: string;
+  updatedAt: string;
+  steps: Record<string, StepRecord>;
+  usage: UsageTotals;
+}
+
+export interface RunWorkflowOptions {
+  /** Cancels the running step; the run is checkpointed as cancelled. */
+  signal?: AbortSignal;
+  /** Use this definition instead of looking `name` up in config. */
+  definition?: WorkflowDefinition;
+}
+
+/**
+ * Raised for unknown or invalid workflows and unknown runs.
+ */
+export class WorkflowError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WorkflowError';
+  }
+}
+
+const STEP_STATUSES: StepStatus[] = ['pending', 'skipped', 'completed', 'max_iterations', 'max_tokens', 'error', 'cancelled'];
+
+const WORKFLOW_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    description: { type: 'string' },
+    steps: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        required: ['id', 'agent', 'input'],
+        additionalProperties: false,
+        properties: {
+          id: { type: 'string', minLength: 1 },
+          agent: { type: 'string' },
+          input: { type: 'string' },
+          continueOnError: { type: 'boolean' },
+          when: {
+            type: 'object',
+            required: ['step'],
+            additionalProperties: false,
+            properties: {
+              step: { type: 'string' },
+              status: { type: ['string', 'array'] },
+              contains: { type: 'string' },
+              notContains: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+  },
+  required: ['steps'],
+};
+
+const TEMPLATE_PATTERN = /\{\{\s*(input|steps\.([\w-]+)\.(output|status))\s*\}\}/g;
+
+// ── Definitions ─────────────────────────────────────────────────────────────
+
+/**
+ * Check a workflow definition: its shape, that every agent exists, and that
+ * conditions and templates only refer to earlier steps. Returns the problems
+ * found; empty when valid.
+ */
+export function validateWorkflow(definition: unknown): string[] {
+  const errors = validateSchema(definition, WORKFLOW_SCHEMA);
+  if (errors.length > 0) return errors;
+
+  const seen = new Set<string>();
+  (definition as WorkflowDefinition).steps.forEach((step, i) => {
+    const at = `$.steps[${i}]`;
+    if (seen.has(step.id)) errors.push(`${at}.id: duplicate step "${step.id}"`);
+    if (!SUB_AGENTS[step.agent]) errors.push(`${at}.agent: unknown agent "${step.agent}"`);
+
+    for (const match of step.input.matchAll(TEMPLATE_PATTERN)) {
+      if (match[2] && !seen.has(match[2])) errors.push(`${at}.input: "${match[0]}" does not refer to an earlier step`);
+    }
+    if (step.when) {
+      if (!seen.has(step.when.step)) errors.push(`${at}.when.step: "${step.when.step}" is not an earlier step`);
+      const statuses = step.when.status === undefined ? [] : [step.when.status].flat();
+      for (const status of statuses) {
+        if (!STEP_STATUSES.includes(status)) errors.push(`${at}.when.status: unknown status "${status}"`);
+      }
+    }
+    seen.add(step.id);
+  });
+  return errors;
+}
+
+/**
+ * Workflows defined under `workflows` in .planning/config.json.
+ */
+export function loadWorkflows(): Record<string, WorkflowDefinition> {
+  const workflows = readConfig()?.workflows;
+  if (workflows === undefined) return {};
+  if (!workflows || typeof workflows !== 'object' || Array.isArray(workflows)) {
+    throw new WorkflowError('"workflows" in .planning/config.json must be an object of named workflows');
+  }
+  return workflows as Record<string, WorkflowDefinition>;
+}
+
+function getWorkflow(name: string): WorkflowDefinition {
+  const workflows = loadWorkflows();
+  const definition = workflows[name];
+  if (!definition) {
+    const known = Object.keys(workflows);
+    throw new WorkflowError(`Unknown workflow "${name}"${known.length > 0 ? `. Defined: ${known.join(', ')}` : '; none are defined in .planning/config.json'}`);
+  }
+  return definition;
+}
+
+// ── Templates & conditions ──────────────────────────────────────────────────
+
+/**
+ * Fill in `{{input}}` and `{{steps.<id>.output|status}}`. The output of a
+ * step that was skipped or has not run yet is an empty string.
+ */
+export function renderTemplate(template: string, input: string, steps: Record<string, StepRecord>): string {
+  return template.replace(TEMPLATE_PATTERN, (_match, key: string, stepId?: string, field?: 'output' | 'status') => {
+    if (key === 'input') return input;
+    const record = stepId ? steps[stepId] : undefined;
+    return (field === 'status' ? record?.status : record?.output) ?? '';
+  });
+}
+
+/**
+ * Whether a step's `when` condition holds for the steps run so far.
+ */
+export function conditionHolds(condition: StepCondition, steps: Record<string, StepRecord>): boolean {
+  const record = steps[condition.step];
+  const status = record?.status ?? 'pending';
+  const output = (record?.output ?? '').toLowerCase();
+
+  if (condition.status !== undefined && ![condition.status].flat().includes(status)) return false;
+  if (condition.contains !== undefined && !output.includes(condition.contains.toLowerCase())) return false;
+  if (condition.notContains !== undefined && output.includes(condition.notContains.toLowerCase())) return false;
+  return true;
+}
+
+// ── Checkpoints ─────────────────────────────────────────────────────────────
+
+function runFile(runId: string): string {
+  return path.join(WORKFLOW_RUNS_DIR, `${runId}.json`);
+}
+
+function saveCheckpoint(run: WorkflowRun): void {
+  run.updatedAt = new Date().toISOString();
+  fs.mkdirSync(WORKFLOW_RUNS_DIR, { recursive: true });
+  // Write then rename, so a crash mid-write never leaves a corrupt checkpoint
+  const file = runFile(run.id);
+  fs.writeFileSync(`${file}.tmp`, JSON.stringify(run, null, 2));
+  fs.renameSync(`${file}.tmp`, file);
+}
+
+/**
+ * Load a checkpointed run by id.
+ */
+export function readWorkflowRun(runId: string): WorkflowRun {
+  const file = runFile(runId);
+  if (!fs.existsSync(file)) throw new WorkflowError(`No workflow run "${runId}" in ${WORKFLOW_RUNS_DIR}`);
+  return JSON.parse(fs.readFileSync(file, 'utf-8')) as WorkflowRun;
+}
+
+/**
+ * Checkpointed runs, most recent first.
+ */
+export function listWorkflowRuns(): WorkflowRun[] {
+  if (!fs.existsSync(WORKFLOW_RUNS_DIR)) return [];
+  return fs.readdirSync(WORKFLOW_RUNS_DIR)
+    .filter((f) => f.endsWith('.json'))
+    .map((f) => JSON.parse(fs.readFileSync(path.join(WORKFLOW_RUNS_DIR, f), 'utf-8')) as WorkflowRun)
+    .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+}
+
+// ── Runner ──────────────────────────────────────────────────────────────────
+
+/**
+ * Run a workflow from the start. Resolves with the checkpointed run, whose
+ * status is `failed` if a step failed; rejects when cancelled (the run is
+ * checkpointed first, so it can be resumed).
+ */
+export async function runWorkflow(name: string, input: string, options: RunWorkflowOptions = {}): Promise<WorkflowRun> {
+  const definition = options.definition ?? getWorkflow(name);
+  const errors = validateWorkflow(definition);
+  if (errors.length > 0) throw new WorkflowError(`Workflow "${name}" is invalid: ${errors.join('; ')}`);
+
+  const now = new Date().toISOString();
+  const run: WorkflowRun = {
+    id: `${name}-${Date.now().toString(36)}`,
+    workflow: name,
+    input,
+    status: 'running',
+    startedAt: now,
+    updatedAt: now,
+    steps: Object.fromEntries(definition.steps.map((s) => [s.id, { status: 'pending', agent: s.agent }])),
+    usage: emptyUsage(),
+  };
+  saveCheckpoint(run);
+  return executeSteps(run, definition, options.signal);
+}
+
+/**
+ * Continue a failed or cancelled run from the step that stopped it. Steps
+ * that completed or were skipped keep their checkpointed results. The
+ * workflow's current definition is used, so a fixed step can be retried.
+ */
+export async function resumeWorkflow(runId: string, options: RunWorkflowOptions = {}): Promise<WorkflowRun> {
+  const run = readWorkflowRun(runId);
+  if (run.status === 'completed') throw new WorkflowError(`Workflow run "${runId}" already completed`);
+
+  const definition = options.definition ?? getWorkflow(run.workflow);
+  const errors = validateWorkflow(definition);
+  if (errors.length > 0) throw new WorkflowError(`Workflow "${run.workflow}" is invalid: ${errors.join('; ')}`);
+
+  for (const step of definition.steps) {
+    const record = run.steps[step.id];
+    if (!record || !isDone(record.status)) run.steps[step.id] = { status: 'pending', agent: step.agent };
+  }
+  run.status = 'running';
+  delete run.failedStep;
+  logger.agent('Workflow', `Resuming ${run.id}`);
+  return executeSteps(run, definition, options.signal);
+}
+
+/** Only finished steps are kept on resume; abandoned and failed ones run again. */
+function isDone(status: StepStatus): boolean {
+  return status === 'completed' || status === 'skipped';
+}
+
+async function executeSteps(run: WorkflowRun, definition: WorkflowDefinition, signal?: AbortSignal): Promise<WorkflowRun> {
+  for (const step of definition.steps) {
+    const record = run.steps[step.id] as StepRecord;
+    if (isDone(record.status)) continue;
+    throwIfAborted(signal);
+
+    if (step.when && !conditionHolds(step.when, run.steps)) {
+      run.steps[step.id] = { status: 'skipped', agent: step.agent };
+      saveCheckpoint(run);
+      logger.agent('Workflow', `${run.workflow} › ${step.id} skipped (condition not met)`);
+      continue;
+    }
+
+    const message = renderTemplate(step.input, run.input, run.steps);
+    const startedAt = new Date();
+    const current: StepRecord = { status: 'pending', agent: step.agent, message, startedAt: startedAt.toISOString() };
+    run.steps[step.id] = current;
+    logger.agent('Workflow', `${run.workflow} › ${step.id} → ${step.agent}`);
+    agentEvents.emit('delegation:start', { agent: step.agent, message });
+
+    let error: string | undefined;
+    try {
+      const subAgent = SUB_AGENTS[step.agent];
+      if (!subAgent) throw new WorkflowError(`Unknown agent "${step.agent}"`);
+      const result = await subAgent.fn({ message, signal });
+      agentEvents.emit('delegation:end', {
+        agent: step.agent,
+        status: result.status,
+        durationMs: Date.now() - startedAt.getTime(),
+        result: result.result,
+        usage: result.usage,
+      });
+      addUsage(run.usage, result.usage);
+      Object.assign(current, { status: result.status, output: result.result, usage: result.usage, finishedAt: new Date().toISOString() });
+      // A step that stopped at a limit was abandoned, not finished
+      if (result.status !== 'completed') error = current.error = `${step.agent} stopped early (${result.status})`;
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+      const status = failureStatus(err);
+      agentEvents.emit('delegation:end', { agent: step.agent, status, durationMs: Date.now() - startedAt.getTime(), error });
+      Object.assign(current, { status, error, finishedAt: new Date().toISOString() });
+
+      if (isAbortError(err)) {
+        run.status = 'cancelled';
+        run.failedStep = step.id;
+        saveCheckpoint(run);
+        throw err;
+      }
+    }
+
+    if (error !== undefined && !step.continueOnError) {
+      run.status = 'failed';
+      run.failedStep = step.id;
+      saveCheckpoint(run);
+      logger.error(`Workflow ${run.workflow} failed at ${step.id}:`, error);
+      return run;
+    }
+    saveCheckpoint(run);
+    if (error !== undefined) logger.warn(`Workflow ${run.workflow} › ${step.id} failed, continuing: ${error}`);
+  }
+
+  run.status = 'completed';
+  saveCheckpoint(run);
+  return run;
+}
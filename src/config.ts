@@ -3,7 +3,7 @@
 // ============================================================================
 
 import { loadEnvironment } from './vault.js';
-import type { Config } from './types/index.js';
+import type { Config, ModelPrice } from './types/index.js';
 
 // Load environment variables from vault or .env
 try {
@@ -20,14 +20,76 @@ try {
   console.warn(`⚠️  Environment loading warning: ${error instanceof Error ? error.message : String(error)}`);
 }
 
+/**
+ * Parse DEVWEAVER_LLM_PRICING: a JSON object of model → { input, output }
+ * prices in USD per million tokens.
+ */
+function parsePricing(raw: string | undefined): Record<string, ModelPrice> {
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw) as Record<string, ModelPrice>;
+  } catch {
+    console.warn('⚠️  DEVWEAVER_LLM_PRICING is not valid JSON — using default prices');
+    return {};
+  }
+}
+
+const llmProvider = (process.env.DEVWEAVER_LLM_PROVIDER || 'anthropic').toLowerCase();
+
+// Provider-specific key variables, used when DEVWEAVER_LLM_API_KEY is unset
+const PROVIDER_KEY_ENV: Record<string, string> = {
+  anthropic: 'ANTHROPIC_API_KEY',
+  openai: 'OPENAI_API_KEY',
+  gemini: 'GEMINI_API_KEY',
+};
+
+// Default model per provider. Local servers (ollama, vllm) have none:
+// DEVWEAVER_LLM_MODEL must name the model they serve.
+const DEFAULT_MODELS: Record<string, string> = {
+  anthropic: 'claude-sonnet-4-20250514',
+  openai: 'gpt-4.1',
+  gemini: 'gemini-2.5-pro',
+};
+
+/**
+ * The model used for `provider` when DEVWEAVER_LLM_MODEL is unset, or ''
+ * when the provider has no default.
+ */
+export function defaultModel(provider: string): string {
+  return DEFAULT_MODELS[provider] || '';
+}
+
+// Default endpoint for local servers. Hosted providers fall back to their
+// adapter's own URL; openai-compatible has neither and needs DEVWEAVER_LLM_BASE_URL.
+const LOCAL_BASE_URLS: Record<string, string> = {
+  ollama: 'http://localhost:11434/v1',
+  vllm: 'http://localhost:8000/v1',
+};
+
+/**
+ * The base URL used for `provider` when DEVWEAVER_LLM_BASE_URL is unset, or
+ * '' when the provider's adapter supplies it.
+ */
+export function defaultBaseUrl(provider: string): string {
+  return LOCAL_BASE_URLS[provider] || '';
+}
+
 const config: Config = {
   // ── LLM Provider ──────────────────────────────────────────────────────
   llm: {
-    provider: process.env.DEVWEAVER_LLM_PROVIDER || 'anthropic',
-    apiKey: process.env.DEVWEAVER_LLM_API_KEY || process.env.ANTHROPIC_API_KEY || '',
-    model: process.env.DEVWEAVER_LLM_MODEL || 'claude-sonnet-4-20250514',
+    provider: llmProvider,                               // anthropic | openai | gemini | ollama | vllm
+    apiKey: process.env.DEVWEAVER_LLM_API_KEY || process.env[PROVIDER_KEY_ENV[llmProvider] || ''] || '',
+    model: process.env.DEVWEAVER_LLM_MODEL || defaultModel(llmProvider),
     maxTokens: parseInt(process.env.DEVWEAVER_LLM_MAX_TOKENS || '4096', 10),
-    baseUrl: process.env.DEVWEAVER_LLM_BASE_URL || 'https://api.anthropic.com',
+    baseUrl: process.env.DEVWEAVER_LLM_BASE_URL || defaultBaseUrl(llmProvider),   // empty = adapter default
+    stream: process.env.DEVWEAVER_LLM_STREAM !== 'false',
+    retry: {
+      maxRetries: parseInt(process.env.DEVWEAVER_LLM_MAX_RETRIES || '5', 10),
+      baseDelayMs: parseInt(process.env.DEVWEAVER_LLM_RETRY_BASE_MS || '1000', 10),
+      maxDelayMs: parseInt(process.env.DEVWEAVER_LLM_RETRY_MAX_MS || '60000', 10),
+    },
+    pricing: parsePricing(process.env.DEVWEAVER_LLM_PRICING),
+    promptCaching: process.env.DEVWEAVER_LLM_PROMPT_CACHING !== 'false',
   },
 
   // ── Jira ──────────────────────────────────────────────────────────────
@@ -70,10 +132,33 @@ const config: Config = {
     directory: process.env.DEVWEAVER_SKILLS_DIR || '.nishi/skills',
   },
 
+  // ── Sessions ──────────────────────────────────────────────────────────
+  sessions: {
+    directory: process.env.DEVWEAVER_SESSIONS_DIR || '.devweaver/sessions',
+  },
+
   // ── Agent ─────────────────────────────────────────────────────────────
   agent: {
     maxIterations: parseInt(process.env.DEVWEAVER_MAX_ITERATIONS || '25', 10),
+    maxOrchestratorLoops: parseInt(process.env.DEVWEAVER_MAX_ORCHESTRATOR_LOOPS || '10', 10),
     verbose: process.env.DEVWEAVER_VERBOSE === 'true',
+    budgetUsd: parseFloat(process.env.DEVWEAVER_SESSION_BUDGET_USD || '0'),
+    timeoutMs: parseInt(process.env.DEVWEAVER_RUN_TIMEOUT_MS || '0', 10),
+    toolConcurrency: Math.max(1, parseInt(process.env.DEVWEAVER_TOOL_CONCURRENCY || '4', 10) || 1),
+    delegationConcurrency: Math.max(1, parseInt(process.env.DEVWEAVER_DELEGATION_CONCURRENCY || '3', 10) || 1),
+    taskConcurrency: Math.max(1, parseInt(process.env.DEVWEAVER_TASK_CONCURRENCY || '3', 10) || 1),
+    worktrees: process.env.DEVWEAVER_WORKTREES !== 'false',
+    verifyAttempts: Math.max(1, parseInt(process.env.DEVWEAVER_VERIFY_ATTEMPTS || '3', 10) || 1),
+    compactAtTokens: parseInt(process.env.DEVWEAVER_COMPACT_AT_TOKENS || '120000', 10),
+    auditLog: process.env.DEVWEAVER_AUDIT_LOG || '',
+    approval: process.env.DEVWEAVER_APPROVAL || '',
+    dryRun: process.env.DEVWEAVER_DRY_RUN === 'true',
+  },
+
+  // ── Record / Replay ───────────────────────────────────────────────────
+  cassette: {
+    mode: (process.env.DEVWEAVER_CASSETTE_MODE as 'record' | 'replay') || 'off',
+    path: process.env.DEVWEAVER_CASSETTE || '.devweaver/cassettes/session.json',
   },
 };
 
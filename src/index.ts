@@ -17,8 +17,28 @@ import bitbucketTools from './tools/bitbucket.js';
 import codeTools from './tools/code.js';
 import skillsTools from './tools/skills.js';
 import { orchestrate } from './agents/orchestrator.js';
+import { onStreamText } from './llm/provider.js';
+import { usageTracker, formatUsage } from './llm/usage.js';
+import { activeProfile } from './llm/profiles.js';
+import cassette from './utils/cassette.js';
+import { parseAttachments, describeAttachments } from './utils/attachments.js';
+import { AbortError, TimeoutError, isAbortError, abortReason } from './utils/abort.js';
+import { approvals, APPROVAL_POLICIES } from './tools/approvals.js';
+import type { ApprovalPolicy, ApprovalPrompter } from './tools/approvals.js';
 import { SUB_AGENTS } from './agents/sub-agents.js';
-import type { Message } from './types/index.js';
+import { loadCustomAgents } from './agents/custom-agents.js';
+import { attachLogging, attachAuditLog, attachShellHooks } from './agents/observers.js';
+import { agentEvents } from './agents/events.js';
+import type { HooksConfig } from './agents/observers.js';
+import { loadWorkflows, listWorkflowRuns, runWorkflow, resumeWorkflow, validateWorkflow } from './agents/workflow.js';
+import type { WorkflowRun } from './agents/workflow.js';
+import { executePhase, executionFile } from './agents/phase-executor.js';
+import type { PhaseExecution } from './agents/phase-executor.js';
+import { sessions, exportSession } from './agents/sessions.js';
+import { failureStatus } from './agents/engine.js';
+import { readConfig } from './utils/docs.js';
+import { dryRun } from './utils/dry-run.js';
+import type { Message, RunStatus, ToolInput } from './types/index.js';
 
 // ── Banner ──────────────────────────────────────────────────────────────────
 
@@ -45,7 +65,30 @@ function printBanner(): void {
 async function initialize(): Promise<boolean> {
   printBanner();
 
-  // 1. Register built-in tools
+  // 0. Record / replay HTTP and LLM traffic (before anything talks to the network)
+  if (config.cassette.mode !== 'off') {
+    cassette.start(config.cassette.mode, config.cassette.path);
+    logger.info(`Cassette ${config.cassette.mode === 'record' ? 'recording to' : 'replaying from'} ${cassette.file}`);
+  }
+
+  // 1. Lifecycle observers: console logging, audit log, user shell hooks
+  attachLogging();
+  if (config.agent.auditLog) {
+    attachAuditLog(config.agent.auditLog);
+    logger.info(`Audit log: ${config.agent.auditLog}`);
+  }
+  try {
+    const hooks = (readConfig()?.hooks || {}) as HooksConfig;
+    const hookCount = (hooks.preTool?.length || 0) + (hooks.postTool?.length || 0);
+    if (hookCount > 0) {
+      attachShellHooks(hooks);
+      logger.info(`Loaded ${hookCount} tool hook(s) from .planning/config.json`);
+    }
+  } catch (err) {
+    logger.warn('Could not load hooks from .planning/config.json:', err instanceof Error ? err.message : String(err));
+  }
+
+  // 2. Register built-in tools
   logger.info('Registering built-in tools...');
   registry.registerAll(jiraTools);
   registry.registerAll(confluenceTools);
@@ -54,7 +97,7 @@ async function initialize(): Promise<boolean> {
   registry.registerAll(skillsTools);
   logger.success(`Registered ${registry.names().length} built-in tools`);
 
-  // 2. Load and connect MCP servers
+  // 3. Load and connect MCP servers
   const mcpConfigPath = path.join(config.repo.localPath, 'mcp-servers.json');
   const mcpConfigs = mcpManager.loadConfig(mcpConfigPath);
   if (mcpConfigs.length > 0) {
@@ -65,13 +108,21 @@ async function initialize(): Promise<boolean> {
     logger.info('No MCP servers configured (create mcp-servers.json to add)');
   }
 
-  // 3. Show summary
+  // 4. Register custom agents from .devweaver/agents/*.md
+  const customAgents = loadCustomAgents();
+  if (customAgents.length > 0) logger.success(`Custom agents: ${customAgents.join(', ')}`);
+
+  // 5. Show summary
   logger.info(`Total tools available: ${registry.names().length}`);
   logger.info(`Repo path: ${config.repo.localPath}`);
 
   // Validate LLM config
-  if (!config.llm.apiKey) {
-    logger.warn('No LLM API key configured! Set ANTHROPIC_API_KEY or DEVWEAVER_LLM_API_KEY');
+  const localProvider = ['ollama', 'vllm', 'openai-compatible'].includes(config.llm.provider);
+  if (!config.llm.apiKey && !localProvider) {
+    logger.warn(`No LLM API key configured for provider "${config.llm.provider}"! Set DEVWEAVER_LLM_API_KEY`);
+  }
+  if (!config.llm.model) {
+    logger.warn(`No default model for provider "${config.llm.provider}"! Set DEVWEAVER_LLM_MODEL`);
   }
 
   return true;
@@ -91,8 +142,22 @@ const BUILTIN_COMMANDS: BuiltinCommands = {
   /agents                List available sub-agents
   /skills                List saved skills
   /status                Show system status
+  /usage                 Show token usage and cost for this session
+  /plan                  Show the dry-run change plan recorded so far
   /direct <agent> <msg>  Bypass orchestrator, call agent directly
+  /workflows             List workflows and recent workflow runs
+  /workflow <name> <msg> Run a workflow from .planning/config.json
+  /workflow resume <id>  Resume a failed or cancelled workflow run
+  /execute-phase <N>     Run phase N's PLAN.md tasks in dependency order (resumes; --restart to rerun all)
+  /sessions              List saved sessions
+  /resume <id|name>      Continue a saved session
+  /save <name>           Name the current session
+  /export <file.md>      Export this session as a Markdown transcript
   /quit                  Exit DEVWEAVER
+  Ctrl+C                 Cancel the running task (twice to exit)
+
+\x1b[33mAttachments:\x1b[0m
+  Add @path (or @"path with spaces") to attach a PNG, JPEG, GIF, WebP, SVG or PDF
 
 \x1b[33mExamples:\x1b[0m
   Analyze the codebase and create coding standards
@@ -101,6 +166,7 @@ const BUILTIN_COMMANDS: BuiltinCommands = {
   Write unit tests for the payment module
   Search Confluence for API documentation
   Generate a flow diagram for the checkout process
+  Turn @designs/checkout.png into user stories
 `);
   },
 
@@ -123,7 +189,8 @@ const BUILTIN_COMMANDS: BuiltinCommands = {
     console.log(`\n\x1b[33mAvailable Sub-Agents:\x1b[0m`);
     for (const [key, agent] of Object.entries(SUB_AGENTS)) {
       console.log(`  \x1b[36m${key}\x1b[0m: ${agent.description}`);
-      console.log(`    Triggers: ${agent.triggers.join(', ')}`);
+      console.log(`    Triggers: ${agent.triggers.join(', ') || 'none'}`);
+      if (agent.source) console.log(`    Source:   ${path.relative(config.repo.localPath, agent.source)}`);
     }
     console.log();
   },
@@ -131,23 +198,90 @@ const BUILTIN_COMMANDS: BuiltinCommands = {
   '/status': () => {
     console.log(`\n\x1b[33mDEVWEAVER Status:\x1b[0m`);
     console.log(`  LLM Provider: ${config.llm.provider} (${config.llm.model})`);
+    console.log(`  Profile:      ${activeProfile() || 'none (DEVWEAVER_LLM_MODEL for every agent)'}`);
     console.log(`  LLM API Key:  ${config.llm.apiKey ? '✅ configured' : '❌ missing'}`);
     console.log(`  Jira:         ${config.jira.baseUrl ? '✅ ' + config.jira.baseUrl : '❌ not configured'}`);
     console.log(`  Confluence:   ${config.confluence.baseUrl ? '✅ ' + config.confluence.baseUrl : '❌ not configured'}`);
     console.log(`  Bitbucket:    ${config.bitbucket.workspace ? '✅ ' + config.bitbucket.workspace : '❌ not configured'}`);
     console.log(`  MCP Servers:  ${mcpManager.clients.size}`);
     console.log(`  Total Tools:  ${registry.names().length}`);
+    const remembered = approvals.rememberedTools;
+    console.log(`  Dry Run:      ${dryRun.enabled ? `on (${dryRun.planned.length} change(s) recorded)` : 'off'}`);
+    console.log(`  Approvals:    ${approvals.currentPolicy}${remembered.length > 0 ? ` (always allowed: ${remembered.join(', ')})` : ''}`);
     console.log(`  Repo Path:    ${config.repo.localPath}`);
+    console.log(`  Session:      ${formatUsage(usageTracker.session)}`);
+    console.log();
+  },
+
+  '/plan': () => {
+    if (!dryRun.enabled) {
+      console.log('\n  Dry run is off; start DEVWEAVER with --dry-run to record a change plan.\n');
+      return;
+    }
+    printChangePlan();
+  },
+
+  '/workflows': () => {
+    const workflows = Object.entries(loadWorkflows());
+    if (workflows.length === 0) {
+      console.log('\n  No workflows defined. Add them under "workflows" in .planning/config.json.\n');
+      return;
+    }
+    console.log(`\n\x1b[33mWorkflows:\x1b[0m`);
+    for (const [name, workflow] of workflows) {
+      const errors = validateWorkflow(workflow);
+      const steps = Array.isArray(workflow.steps) ? workflow.steps.map((s) => s.agent).join(' → ') : '';
+      console.log(`  \x1b[36m${name}\x1b[0m: ${workflow.description || steps}`);
+      if (errors.length > 0) console.log(`    \x1b[31mInvalid: ${errors.join('; ')}\x1b[0m`);
+    }
+    const runs = listWorkflowRuns().slice(0, 5);
+    if (runs.length > 0) {
+      console.log(`\n\x1b[33mRecent Runs:\x1b[0m`);
+      for (const run of runs) {
+        console.log(`  ${run.id}: ${run.status}${run.failedStep ? ` at ${run.failedStep}` : ''} (${run.updatedAt})`);
+      }
+    }
+    console.log();
+  },
+
+  '/sessions': () => {
+    const saved = sessions.list();
+    if (saved.length === 0) {
+      console.log(`\n  No saved sessions in ${sessions.directory}.\n`);
+      return;
+    }
+    console.log(`\n\x1b[33mSaved Sessions:\x1b[0m`);
+    for (const s of saved.slice(0, 20)) {
+      const current = s.id === sessions.current.id ? ' \x1b[32m(current)\x1b[0m' : '';
+      console.log(`  \x1b[36m${s.id}\x1b[0m${s.name ? ` "${s.name}"` : ''}${current} — ${s.turns} turn(s), ${s.updatedAt}`);
+      if (s.title) console.log(`    ${s.title}`);
+    }
+    console.log();
+  },
+
+  '/usage': () => {
+    const budget = config.agent.budgetUsd;
+    console.log(`\n\x1b[33mSession Usage:\x1b[0m`);
+    console.log(`  Total:   ${formatUsage(usageTracker.session)}`);
+    console.log(`  Budget:  ${budget > 0 ? `$${usageTracker.session.costUsd.toFixed(4)} of $${budget.toFixed(2)}` : 'unlimited (set DEVWEAVER_SESSION_BUDGET_USD)'}`);
+    if (usageTracker.byAgent.size > 0) {
+      console.log(`\n\x1b[33mBy Agent:\x1b[0m`);
+      for (const [agent, usage] of usageTracker.byAgent) {
+        console.log(`  \x1b[36m${agent}\x1b[0m: ${formatUsage(usage)}`);
+      }
+    }
     console.log();
   },
 };
 
 async function processInput(
   input: string,
-  conversationHistory: Message[]
+  conversationHistory: Message[],
+  signal?: AbortSignal
 ): Promise<Message[] | null> {
   const trimmed = input.trim();
   if (!trimmed) return conversationHistory;
+  lastStreamed = '';
 
   // Check built-in commands
   if (trimmed.startsWith('/')) {
@@ -171,19 +305,84 @@ async function processInput(
       return conversationHistory;
     }
 
+    if (cmd === '/resume' && parts[1]) {
+      const session = sessions.find(parts.slice(1).join(' '));
+      if (!session) {
+        console.log(`No single session matches "${parts.slice(1).join(' ')}". Use /sessions to list them.`);
+        return conversationHistory;
+      }
+      sessions.resume(session);
+      const last = session.turns[session.turns.length - 1];
+      console.log(`\n\x1b[32mResumed session ${session.id}${session.name ? ` "${session.name}"` : ''} (${session.turns.length} turn(s)).\x1b[0m`);
+      if (last) console.log(`\x1b[2mLast: ${last.input.slice(0, 120)}\x1b[0m\n`);
+      return session.messages;
+    }
+
+    if (cmd === '/save' && parts[1]) {
+      sessions.rename(parts.slice(1).join(' '));
+      console.log(sessions.current.turns.length > 0
+        ? `Session saved as "${sessions.current.name}" (${sessions.current.id}).`
+        : `Session will be saved as "${sessions.current.name}" once it has a turn.`);
+      return conversationHistory;
+    }
+
+    if (cmd === '/export' && parts[1]) {
+      try {
+        const file = exportSession(sessions.current, parts.slice(1).join(' '));
+        console.log(`Transcript written to ${file}`);
+      } catch (err) {
+        reportError(err);
+      }
+      return conversationHistory;
+    }
+
     if (cmd === '/direct' && parts.length >= 3) {
       const agentKey = parts[1];
-      const message = parts.slice(2).join(' ');
       const subAgent = SUB_AGENTS[agentKey as keyof typeof SUB_AGENTS];
       if (!subAgent) {
         console.log(`Unknown agent: ${agentKey}. Use /agents to see available agents.`);
         return conversationHistory;
       }
+      sessions.beginTurn(trimmed);
+      try {
+        const { message, attachments } = parseAttachments(parts.slice(2).join(' '));
+        const result = await subAgent.fn({ message, attachments, signal });
+        sessions.endTurn({ result: result.result, status: result.status, usage: result.usage });
+        printResult(result.result);
+        reportIncomplete(String(agentKey), result.status);
+      } catch (err) {
+        sessions.failTurn(failureStatus(err), err instanceof Error ? err.message : String(err));
+        reportError(err);
+      }
+      return conversationHistory;
+    }
+
+    if (cmd === '/workflow' && parts.length >= 3) {
+      try {
+        const [, name = '', runId = ''] = parts;
+        const run = name === 'resume'
+          ? await resumeWorkflow(runId, { signal })
+          : await runWorkflow(name, parts.slice(2).join(' '), { signal });
+        printWorkflowRun(run);
+        if (dryRun.enabled) printChangePlan();
+      } catch (err) {
+        reportError(err);
+      }
+      return conversationHistory;
+    }
+
+    if (cmd === '/execute-phase' && parts[1]) {
+      const phaseNumber = Number(parts[1]);
+      if (!Number.isInteger(phaseNumber) || phaseNumber < 1) {
+        console.log('Usage: /execute-phase <N> [--restart]');
+        return conversationHistory;
+      }
       try {
-        const result = await subAgent.fn({ message });
-        console.log(`\n\x1b[32m${result.result}\x1b[0m\n`);
+        const execution = await executePhase(phaseNumber, { restart: parts.includes('--restart'), signal });
+        printPhaseExecution(execution);
+        if (dryRun.enabled) printChangePlan();
       } catch (err) {
-        logger.error((err as Error).message);
+        reportError(err);
       }
       return conversationHistory;
     }
@@ -198,23 +397,227 @@ async function processInput(
   }
 
   // Process through orchestrator
+  sessions.beginTurn(trimmed);
   try {
-    const result = await orchestrate(trimmed, conversationHistory);
-    console.log(`\n\x1b[32m${result.result}\x1b[0m\n`);
+    const { message, attachments } = parseAttachments(trimmed);
+    if (attachments.length > 0) {
+      console.log(`\x1b[2m(Attached: ${describeAttachments(attachments)})\x1b[0m`);
+    }
+    const result = await orchestrate(message, conversationHistory, { attachments, signal });
+    sessions.endTurn({ result: result.result, status: result.status, usage: result.usage, messages: result.conversationHistory });
+    printResult(result.result);
 
+    reportIncomplete('Orchestrator', result.status);
     if (result.delegations.length > 0) {
-      console.log(`\x1b[2m(Delegated to: ${result.delegations.map((d: { agent: string }) => d.agent).join(' → ')})\x1b[0m\n`);
+      const route = result.delegations
+        .map((d) => (d.status === 'completed' ? d.agent : `${d.agent} [${d.status}]`))
+        .join(' → ');
+      console.log(`\x1b[2m(Delegated to: ${route})\x1b[0m`);
     }
+    console.log(`\x1b[2m(${formatUsage(result.usage)})\x1b[0m\n`);
+    if (dryRun.enabled) printChangePlan();
 
     return result.conversationHistory;
   } catch (err) {
-    logger.error('Error:', err instanceof Error ? err.message : String(err));
+    sessions.failTurn(failureStatus(err), err instanceof Error ? err.message : String(err));
+    reportError(err);
     return conversationHistory;
   }
 }
 
+/**
+ * Print the outcome of a workflow run and each step's status.
+ */
+function printWorkflowRun(run: WorkflowRun): void {
+  const color = run.status === 'completed' ? '\x1b[32m' : '\x1b[31m';
+  console.log(`\n${color}Workflow ${run.workflow} ${run.status}\x1b[0m \x1b[2m(${run.id})\x1b[0m`);
+  for (const [id, step] of Object.entries(run.steps)) {
+    console.log(`  ${id} (${step.agent}): ${step.status}${step.error ? ` — ${step.error}` : ''}`);
+  }
+  const last = Object.values(run.steps).filter((s) => s.output).pop();
+  if (last?.output) console.log(`\n\x1b[32m${last.output}\x1b[0m`);
+  if (run.status === 'failed') console.log(`\n\x1b[33mFix the cause, then: /workflow resume ${run.id}\x1b[0m`);
+  console.log(`\x1b[2m(${formatUsage(run.usage)})\x1b[0m\n`);
+}
+
+/**
+ * Print the outcome of a phase execution and each task's status.
+ */
+function printPhaseExecution(execution: PhaseExecution): void {
+  const color = execution.status === 'completed' ? '\x1b[32m' : '\x1b[31m';
+  console.log(`\n${color}Phase ${execution.phase} ${execution.status}\x1b[0m \x1b[2m(${executionFile(execution.phase)})\x1b[0m`);
+  for (const [id, task] of Object.entries(execution.tasks)) {
+    const detail = task.blockedBy ? ` — waiting on task ${task.blockedBy}` : task.error ? ` — ${task.error}` : '';
+    console.log(`  ${id}. ${task.name}: ${task.status}${detail}${task.branch ? ` \x1b[2m(branch ${task.branch})\x1b[0m` : ''}`);
+  }
+  if (execution.status === 'failed') console.log(`\n\x1b[33mFix the cause, then: /execute-phase ${execution.phase}\x1b[0m`);
+  console.log(`\x1b[2m(${formatUsage(execution.usage)})\x1b[0m\n`);
+}
+
+/**
+ * Print a final answer, unless the stream display already showed it.
+ */
+function printResult(text: string): void {
+  const squash = (t: string) => t.replace(/\s+/g, '');
+  if (config.llm.stream && squash(text) && squash(text) === squash(lastStreamed)) {
+    console.log();
+  } else {
+    console.log(`\n\x1b[32m${text}\x1b[0m\n`);
+  }
+}
+
+/**
+ * Warn when a run stopped at a limit rather than finishing, so a partial
+ * answer is not mistaken for a complete one.
+ */
+function reportIncomplete(agent: string, status: RunStatus): void {
+  if (status === 'max_iterations') {
+    logger.warn(`${agent} reached its iteration limit before finishing; the answer above is a summary of progress so far.`);
+  } else if (status === 'max_tokens') {
+    logger.warn(`${agent}'s answer was cut off at the max_tokens limit.`);
+  }
+}
+
+/**
+ * Print a failed or cancelled run. Cancellation is not an error.
+ */
+function reportError(err: unknown): void {
+  if (err instanceof TimeoutError) {
+    logger.warn(err.message);
+  } else if (isAbortError(err)) {
+    console.log('\n\x1b[33m⏹  Cancelled.\x1b[0m\n');
+  } else {
+    logger.error('Error:', err instanceof Error ? err.message : String(err));
+  }
+}
+
+// ── Dry Run ─────────────────────────────────────────────────────────────────
+
+/**
+ * Print the changes recorded since the last plan, then start a fresh one.
+ */
+function printChangePlan(): void {
+  console.log(`\n\x1b[33m${dryRun.formatPlan()}\x1b[0m\n`);
+  dryRun.reset();
+}
+
+// ── Tool Approvals ──────────────────────────────────────────────────────────
+
+/**
+ * The approval policy for this session: DEVWEAVER_APPROVAL when set, `allow`
+ * in yolo mode or a dry run (nothing is executed), otherwise ask in the REPL
+ * and only allow writes elsewhere.
+ */
+function approvalPolicy(interactive: boolean): ApprovalPolicy {
+  const fromEnv = config.agent.approval as ApprovalPolicy;
+  if (fromEnv) {
+    if (APPROVAL_POLICIES.includes(fromEnv)) return fromEnv;
+    logger.warn(`Unknown DEVWEAVER_APPROVAL "${fromEnv}"; expected one of ${APPROVAL_POLICIES.join(', ')}`);
+  }
+  if (dryRun.enabled) return 'allow';
+  try {
+    if (readConfig()?.mode === 'yolo') return 'allow';
+  } catch {
+    // Unreadable config: keep the default
+  }
+  return interactive ? 'prompt' : 'writes';
+}
+
+function question(rl: readline.Interface, query: string, signal?: AbortSignal): Promise<string> {
+  return new Promise((resolve, reject) => {
+    if (!signal) {
+      rl.question(query, resolve);
+      return;
+    }
+    if (signal.aborted) {
+      reject(abortReason(signal));
+      return;
+    }
+    // Removed once answered, so repeated prompts don't pile up listeners
+    const onAbort = () => reject(abortReason(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+    rl.question(query, { signal }, (answer) => {
+      signal.removeEventListener('abort', onAbort);
+      resolve(answer);
+    });
+  });
+}
+
+/**
+ * Ask the REPL user to approve, edit or deny a mutating tool call.
+ */
+function createApprovalPrompter(rl: readline.Interface): ApprovalPrompter {
+  return async (request, signal) => {
+    const color = request.risk === 'destructive' ? '\x1b[31m' : '\x1b[33m';
+    const input = JSON.stringify(request.input, null, 2);
+    console.log(`\n${color}⚠ ${request.agent || 'An agent'} wants to run ${request.tool} (${request.risk})\x1b[0m`);
+    console.log(`\x1b[2m${input.length > 1500 ? `${input.slice(0, 1500)}\n…` : input}\x1b[0m`);
+
+    for (;;) {
+      const answer = (await question(rl, `  [y] approve  [a] always allow ${request.tool}  [e] edit input  [n] deny › `, signal)).trim().toLowerCase();
+      if (answer === 'y' || answer === 'yes') return { action: 'allow' };
+      if (answer === 'a' || answer === 'always') return { action: 'allow', remember: true };
+      if (answer === 'n' || answer === 'no') {
+        const reason = (await question(rl, '  Reason (optional, passed to the agent) › ', signal)).trim();
+        return { action: 'deny', reason: reason || undefined };
+      }
+      if (answer === 'e' || answer === 'edit') {
+        const pending = question(rl, '  Input JSON › ', signal);
+        rl.write(JSON.stringify(request.input));
+        try {
+          const edited = JSON.parse(await pending) as unknown;
+          if (edited && typeof edited === 'object' && !Array.isArray(edited)) {
+            return { action: 'allow', input: edited as ToolInput };
+          }
+          console.log('  The input must be a JSON object.');
+        } catch (err) {
+          if (isAbortError(err)) throw err;
+          console.log(`  Invalid JSON: ${err instanceof Error ? err.message : String(err)}`);
+        }
+      }
+    }
+  };
+}
+
 // ── Interactive CLI ─────────────────────────────────────────────────────────
 
+/** The response most recently shown by the stream display, for printResult. */
+let lastStreamed = '';
+
+/**
+ * Print streamed LLM text as it arrives, labelled with the agent producing it.
+ * While sub-agents run in parallel only their progress lines are shown, since
+ * interleaved text would be unreadable.
+ */
+function attachStreamDisplay(): void {
+  let openAgent: string | null = null;
+  let activeDelegations = 0;
+  agentEvents.on('delegation:start', () => { activeDelegations++; });
+  agentEvents.on('delegation:end', () => { activeDelegations--; });
+
+  onStreamText((agentName, delta, done) => {
+    if (activeDelegations > 1 && agentName !== 'Orchestrator') {
+      if (openAgent) process.stdout.write('\x1b[0m\n');
+      openAgent = null;
+      return;
+    }
+    if (done) {
+      if (openAgent) process.stdout.write('\x1b[0m\n');
+      openAgent = null;
+      return;
+    }
+    if (openAgent !== agentName) {
+      if (openAgent) process.stdout.write('\x1b[0m\n');
+      const color = agentName === 'Orchestrator' ? '\x1b[32m' : '\x1b[2m';
+      process.stdout.write(`\x1b[35m[nishi:${agentName}]\x1b[0m ${color}`);
+      openAgent = agentName;
+      lastStreamed = '';
+    }
+    process.stdout.write(delta);
+    lastStreamed += delta;
+  });
+}
+
 async function startCLI(): Promise<void> {
   const rl = readline.createInterface({
     input: process.stdin,
@@ -223,14 +626,41 @@ async function startCLI(): Promise<void> {
   });
 
   let conversationHistory: Message[] = [];
+  if (config.llm.stream) attachStreamDisplay();
+  approvals.configure(approvalPolicy(true), createApprovalPrompter(rl));
 
   console.log('Type /help for commands, or describe what you need.\n');
   rl.prompt();
 
+  // First Ctrl+C cancels the running task; a second one exits
+  let currentTask: AbortController | null = null;
+  let exitArmed = false;
+
+  rl.on('SIGINT', () => {
+    if (currentTask && !currentTask.signal.aborted) {
+      currentTask.abort(new AbortError('Cancelled by user'));
+      console.log('\n\x1b[33mCancelling… press Ctrl+C again to exit.\x1b[0m');
+      exitArmed = true;
+      return;
+    }
+    if (exitArmed) {
+      rl.close();
+      return;
+    }
+    exitArmed = true;
+    console.log('\n\x1b[2m(Press Ctrl+C again to exit, or type /quit)\x1b[0m');
+    rl.prompt();
+  });
+
   rl.on('line', async (line: string) => {
+    exitArmed = false;
+    const task = new AbortController();
+    currentTask = task;
     try {
-      const result = await processInput(line, conversationHistory);
+      const result = await processInput(line, conversationHistory, task.signal);
       if (result === null) {
+        const session = sessions.current;
+        if (session.turns.length > 0) console.log(`\n\x1b[2mSession saved; continue it later with /resume ${session.name || session.id}\x1b[0m`);
         console.log('\nGoodbye! 👋\n');
         mcpManager.disconnectAll();
         rl.close();
@@ -239,6 +669,8 @@ async function startCLI(): Promise<void> {
       conversationHistory = result;
     } catch (err) {
       logger.error('Unexpected error:', err instanceof Error ? err.message : String(err));
+    } finally {
+      if (currentTask === task) currentTask = null;
     }
     rl.prompt();
   });
@@ -252,14 +684,24 @@ async function startCLI(): Promise<void> {
 // ── Single Command Mode ─────────────────────────────────────────────────────
 
 async function runSingleCommand(command: string): Promise<void> {
+  approvals.configure(approvalPolicy(false));
+  const task = new AbortController();
+  process.on('SIGINT', () => {
+    if (task.signal.aborted) process.exit(130);
+    task.abort(new AbortError('Cancelled by user'));
+    console.error('\nCancelling… press Ctrl+C again to exit immediately.');
+  });
+
   try {
-    const result = await orchestrate(command);
+    const { message, attachments } = parseAttachments(command);
+    const result = await orchestrate(message, [], { attachments, signal: task.signal });
     console.log(result.result);
+    if (dryRun.enabled) printChangePlan();
     mcpManager.disconnectAll();
     process.exit(0);
   } catch (err) {
     logger.error(err instanceof Error ? err.message : String(err));
-    process.exit(1);
+    process.exit(isAbortError(err) ? 130 : 1);
   }
 }
 
@@ -269,7 +711,12 @@ async function main(): Promise<void> {
   try {
     await initialize();
 
-    const args = process.argv.slice(2);
+    let args = process.argv.slice(2);
+    if (args.includes('--dry-run') || config.agent.dryRun) {
+      args = args.filter((a) => a !== '--dry-run');
+      dryRun.enable();
+      logger.warn('Dry run: Jira, Confluence, Bitbucket, file and MCP changes are recorded, not executed');
+    }
     if (args.length > 0 && !args[0]!.startsWith('-')) {
       // Single command mode
       await runSingleCommand(args.join(' '));
@@ -0,0 +1,157 @@
+// ============================================================================
+// DEVWEAVER – Anthropic Messages API Adapter
+//
+// Our internal message types already follow the Messages API shape, so this
+// adapter mostly passes them through.
+// ============================================================================
+
+import { LLMAPIError } from './retry.js';
+import type { LLMAdapter, LLMResponse, LLMStreamAccumulator, ContentBlock, Message, CacheControl } from '../types/index.js';
+
+const EPHEMERAL: CacheControl = { type: 'ephemeral' };
+
+/**
+ * Put a cache breakpoint on the last block of the conversation. Together
+ * with the system and tools breakpoints (3 of the 4 allowed), each agent
+ * iteration re-reads everything up to the previous turn from cache.
+ */
+export function withCachedPrefix(messages: Message[]): Message[] {
+  const last = messages[messages.length - 1];
+  if (!last) return messages;
+
+  const blocks: ContentBlock[] = typeof last.content === 'string'
+    ? [{ type: 'text', text: last.content }]
+    : [...last.content];
+  const lastBlock = blocks[blocks.length - 1];
+  if (!lastBlock) return messages;
+
+  blocks[blocks.length - 1] = { ...lastBlock, cache_control: EPHEMERAL };
+  return [...messages.slice(0, -1), { ...last, content: blocks }];
+}
+
+/** The Messages API stream events the accumulator reads. */
+type AnthropicStreamEvent =
+  | { type: 'message_start'; message: LLMResponse }
+  | { type: 'content_block_start'; index: number; content_block: ContentBlock }
+  | {
+    type: 'content_block_delta';
+    index: number;
+    delta: { type: 'text_delta'; text: string } | { type: 'input_json_delta'; partial_json: string };
+  }
+  | { type: 'content_block_stop'; index: number }
+  | { type: 'message_delta'; delta?: { stop_reason?: string }; usage?: Partial<LLMResponse['usage']> }
+  | { type: 'error'; error?: { type?: string; message?: string } }
+  | { type: 'ping' | 'message_stop' };
+
+/**
+ * Rebuild a Messages API response from its `message_start`,
+ * `content_block_*` and `message_delta` stream events.
+ */
+export function createAnthropicAccumulator(onText: (delta: string) => void): LLMStreamAccumulator {
+  let message: LLMResponse | null = null;
+  const blocks: ContentBlock[] = [];
+  const partialJson: Record<number, string> = {};
+
+  return {
+    push(event) {
+      const data = JSON.parse(event.data) as AnthropicStreamEvent;
+
+      switch (data.type) {
+        case 'message_start':
+          message = { ...data.message, content: [] };
+          break;
+        case 'content_block_start': {
+          const block = { ...data.content_block };
+          if (block.type === 'tool_use') {
+            block.input = {};
+            partialJson[data.index] = '';
+          }
+          blocks[data.index] = block;
+          break;
+        }
+        case 'content_block_delta': {
+          const block = blocks[data.index];
+          if (!block) break;
+          if (data.delta.type === 'text_delta') {
+            block.text = (block.text || '') + data.delta.text;
+            onText(data.delta.text);
+          } else if (data.delta.type === 'input_json_delta') {
+            partialJson[data.index] += data.delta.partial_json;
+          }
+          break;
+        }
+        case 'content_block_stop': {
+          const block = blocks[data.index];
+          const json = partialJson[data.index];
+          if (block?.type === 'tool_use' && json) {
+            block.input = JSON.parse(json);
+          }
+          break;
+        }
+        case 'message_delta':
+          if (message) {
+            message.stop_reason = data.delta?.stop_reason ?? message.stop_reason;
+            message.usage = { ...message.usage, ...data.usage };
+          }
+          break;
+        case 'error': {
+          // Overload and rate-limit errors can arrive mid-stream with a 200 status
+          const status = data.error?.type === 'overloaded_error' ? 529
+            : data.error?.type === 'rate_limit_error' ? 429
+            : 500;
+          throw new LLMAPIError(status, `LLM stream error: ${JSON.stringify(data.error)}`);
+        }
+      }
+    },
+
+    finish() {
+      if (!message) throw new Error('LLM stream ended before message_start');
+      return { ...message, content: blocks.filter(Boolean) };
+    },
+  };
+}
+
+const anthropicAdapter: LLMAdapter = {
+  name: 'anthropic',
+  defaultBaseUrl: 'https://api.anthropic.com',
+
+  buildRequest(opts, settings) {
+    const { systemPrompt, messages, tools } = opts;
+
+    const body: Record<string, unknown> = {
+      model: settings.model,
+      max_tokens: settings.maxTokens,
+      system: opts.cache ? [{ type: 'text', text: systemPrompt, cache_control: EPHEMERAL }] : systemPrompt,
+      messages: opts.cache ? withCachedPrefix(messages) : messages,
+    };
+
+    if (tools && tools.length > 0) {
+      body.tools = opts.cache
+        ? tools.map((t, i) => (i === tools.length - 1 ? { ...t, cache_control: EPHEMERAL } : t))
+        : tools;
+      if (opts.toolChoice) body.tool_choice = opts.toolChoice;
+    }
+
+    if (opts.stream) {
+      body.stream = true;
+    }
+
+    return {
+      url: `${settings.baseUrl}/v1/messages`,
+      headers: {
+        'x-api-key': settings.apiKey,
+        'anthropic-version': '2023-06-01',
+        'Content-Type': 'application/json',
+      },
+      body,
+    };
+  },
+
+  parseResponse(data) {
+    return data as LLMResponse;
+  },
+
+  createStreamAccumulator: createAnthropicAccumulator,
+};
+
+export default anthropicAdapter;
@@ -0,0 +1,248 @@
+// ============================================================================
+// DEVWEAVER – Google Gemini (generateContent) Adapter
+//
+// Gemini has no tool-call ids and pairs results with calls by function name,
+// so ids are synthesized on the way in and resolved back to names on the
+// way out.
+// ============================================================================
+
+import type { LLMAdapter, LLMResponse, LLMStreamAccumulator, Message, ContentBlock, ToolChoice, ToolDefinition } from '../types/index.js';
+
+interface GeminiPart {
+  text?: string;
+  inlineData?: { mimeType: string; data: string };
+  functionCall?: { name: string; args?: Record<string, unknown> };
+  functionResponse?: { name: string; response: Record<string, unknown> };
+}
+
+interface GeminiContent {
+  role: 'user' | 'model';
+  parts: GeminiPart[];
+}
+
+interface GeminiResponse {
+  responseId?: string;
+  modelVersion?: string;
+  candidates?: Array<{
+    content?: { parts?: GeminiPart[] };
+    finishReason?: string;
+  }>;
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    cachedContentTokenCount?: number;
+  };
+}
+
+const FINISH_REASONS: Record<string, string> = {
+  STOP: 'end_turn',
+  MAX_TOKENS: 'max_tokens',
+  SAFETY: 'refusal',
+  RECITATION: 'refusal',
+};
+
+/** Schema keywords Gemini's OpenAPI subset accepts; anything else is rejected by the API. */
+const SCHEMA_KEYS = new Set([
+  'type', 'format', 'description', 'nullable', 'enum', 'properties',
+  'required', 'items', 'minItems', 'maxItems', 'minimum', 'maximum',
+]);
+
+function toGeminiSchema(schema: unknown): unknown {
+  if (Array.isArray(schema)) return schema.map(toGeminiSchema);
+  if (!schema || typeof schema !== 'object') return schema;
+
+  const out: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(schema as Record<string, unknown>)) {
+    if (!SCHEMA_KEYS.has(key)) continue;
+    if (key === 'properties' && value && typeof value === 'object') {
+      out.properties = Object.fromEntries(
+        Object.entries(value as Record<string, unknown>).map(([k, v]) => [k, toGeminiSchema(v)])
+      );
+    } else if (key === 'items') {
+      out.items = toGeminiSchema(value);
+    } else {
+      out[key] = value;
+    }
+  }
+  return out;
+}
+
+function toFunctionDeclaration(tool: ToolDefinition): Record<string, unknown> {
+  const decl: Record<string, unknown> = { name: tool.name, description: tool.description };
+  // Gemini rejects OBJECT schemas with no properties
+  if (Object.keys(tool.input_schema.properties || {}).length > 0) {
+    decl.parameters = toGeminiSchema(tool.input_schema);
+  }
+  return decl;
+}
+
+export function toGeminiFunctionCalling(choice: ToolChoice): Record<string, unknown> {
+  if (choice.type === 'tool') return { mode: 'ANY', allowedFunctionNames: [choice.name] };
+  return { mode: choice.type === 'any' ? 'ANY' : 'AUTO' };
+}
+
+/**
+ * Convert our messages into Gemini `contents`.
+ */
+export function toGeminiContents(messages: Message[]): GeminiContent[] {
+  const toolNames = new Map<string, string>();
+  const out: GeminiContent[] = [];
+
+  for (const msg of messages) {
+    const role = msg.role === 'assistant' ? 'model' : 'user';
+
+    if (typeof msg.content === 'string') {
+      out.push({ role, parts: [{ text: msg.content }] });
+      continue;
+    }
+
+    const parts: GeminiPart[] = [];
+    for (const block of msg.content) {
+      if (block.type === 'text' && block.text) {
+        parts.push({ text: block.text });
+      } else if ((block.type === 'image' || block.type === 'document') && block.source) {
+        parts.push({ inlineData: { mimeType: block.source.media_type, data: block.source.data } });
+      } else if (block.type === 'tool_use') {
+        toolNames.set(block.id || '', block.name || '');
+        parts.push({ functionCall: { name: block.name || '', args: (block.input || {}) as Record<string, unknown> } });
+      } else if (block.type === 'tool_result') {
+        let response: unknown = block.content;
+        if (typeof response === 'string') {
+          try {
+            response = JSON.parse(response);
+          } catch {
+            // Keep plain-text results as-is
+          }
+        }
+        parts.push({
+          functionResponse: {
+            name: toolNames.get(block.tool_use_id || '') || 'unknown_tool',
+            response: { content: response },
+          },
+        });
+      }
+    }
+    if (parts.length > 0) out.push({ role, parts });
+  }
+
+  return out;
+}
+
+/**
+ * Convert a Gemini response back into our LLMResponse shape.
+ */
+export function fromGeminiResponse(data: GeminiResponse): LLMResponse {
+  const candidate = data.candidates?.[0];
+  const responseId = data.responseId || `gemini-${Date.now()}`;
+  const cachedTokens = data.usageMetadata?.cachedContentTokenCount || 0;
+  const content: ContentBlock[] = [];
+
+  let callIndex = 0;
+  for (const part of candidate?.content?.parts || []) {
+    if (part.text) {
+      content.push({ type: 'text', text: part.text });
+    } else if (part.functionCall) {
+      content.push({
+        type: 'tool_use',
+        id: `${responseId}_call_${callIndex++}`,
+        name: part.functionCall.name,
+        input: part.functionCall.args || {},
+      });
+    }
+  }
+
+  const stopReason = callIndex > 0
+    ? 'tool_use'
+    : FINISH_REASONS[candidate?.finishReason || 'STOP'] || 'end_turn';
+
+  return {
+    id: responseId,
+    type: 'message',
+    role: 'assistant',
+    content,
+    model: data.modelVersion || '',
+    stop_reason: stopReason,
+    usage: {
+      // Implicit context caching; cached tokens are included in promptTokenCount
+      input_tokens: (data.usageMetadata?.promptTokenCount || 0) - cachedTokens,
+      output_tokens: data.usageMetadata?.candidatesTokenCount || 0,
+      cache_read_input_tokens: cachedTokens,
+    },
+  };
+}
+
+/**
+ * Merge streamed `streamGenerateContent` chunks into one response. Each
+ * chunk is a partial GenerateContentResponse.
+ */
+export function createGeminiAccumulator(onText: (delta: string) => void): LLMStreamAccumulator {
+  const parts: GeminiPart[] = [];
+  const mergedCandidate: { content: { parts: GeminiPart[] }; finishReason?: string } = { content: { parts } };
+  const merged: GeminiResponse = { candidates: [mergedCandidate] };
+
+  return {
+    push(event) {
+      const chunk = JSON.parse(event.data) as GeminiResponse & { error?: unknown };
+      if (chunk.error) throw new Error(`LLM stream error: ${JSON.stringify(chunk.error)}`);
+
+      merged.responseId = chunk.responseId || merged.responseId;
+      merged.modelVersion = chunk.modelVersion || merged.modelVersion;
+      if (chunk.usageMetadata) merged.usageMetadata = chunk.usageMetadata;
+
+      const candidate = chunk.candidates?.[0];
+      for (const part of candidate?.content?.parts || []) {
+        const last = parts[parts.length - 1];
+        if (part.text !== undefined && last?.text !== undefined) {
+          last.text += part.text;
+        } else {
+          parts.push({ ...part });
+        }
+        if (part.text) onText(part.text);
+      }
+      if (candidate?.finishReason) mergedCandidate.finishReason = candidate.finishReason;
+    },
+
+    finish() {
+      return fromGeminiResponse(merged);
+    },
+  };
+}
+
+const geminiAdapter: LLMAdapter = {
+  name: 'gemini',
+  defaultBaseUrl: 'https://generativelanguage.googleapis.com',
+
+  buildRequest(opts, settings) {
+    const { systemPrompt, messages, tools } = opts;
+
+    const body: Record<string, unknown> = {
+      systemInstruction: { parts: [{ text: systemPrompt }] },
+      contents: toGeminiContents(messages),
+      generationConfig: { maxOutputTokens: settings.maxTokens },
+    };
+
+    if (tools && tools.length > 0) {
+      body.tools = [{ functionDeclarations: tools.map(toFunctionDeclaration) }];
+      if (opts.toolChoice) body.toolConfig = { functionCallingConfig: toGeminiFunctionCalling(opts.toolChoice) };
+    }
+
+    return {
+      url: opts.stream
+        ? `${settings.baseUrl}/v1beta/models/${settings.model}:streamGenerateContent?alt=sse`
+        : `${settings.baseUrl}/v1beta/models/${settings.model}:generateContent`,
+      headers: {
+        'x-goog-api-key': settings.apiKey,
+        'Content-Type': 'application/json',
+      },
+      body,
+    };
+  },
+
+  parseResponse(data) {
+    return fromGeminiResponse(data as GeminiResponse);
+  },
+
+  createStreamAccumulator: createGeminiAccumulator,
+};
+
+export default geminiAdapter;
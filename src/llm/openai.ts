@@ -0,0 +1,253 @@
+// ============================================================================
+// DEVWEAVER – OpenAI-compatible Chat Completions Adapter
+//
+// Works with OpenAI and with local servers that expose the same API
+// (Ollama, vLLM, LM Studio, ...). Tool calls are mapped onto our
+// tool_use / tool_result blocks.
+// ============================================================================
+
+import type { LLMAdapter, LLMResponse, LLMStreamAccumulator, Message, ContentBlock, ToolChoice } from '../types/index.js';
+
+interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+type OpenAIContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } }
+  | { type: 'file'; file: { filename: string; file_data: string } };
+
+interface OpenAIMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | null | OpenAIContentPart[];
+  tool_calls?: OpenAIToolCall[];
+  tool_call_id?: string;
+}
+
+interface OpenAIChatResponse {
+  id: string;
+  model: string;
+  choices: Array<{
+    message: OpenAIMessage & { content: string | null };
+    finish_reason: string | null;
+  }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    prompt_tokens_details?: { cached_tokens?: number };
+  };
+}
+
+const FINISH_REASONS: Record<string, string> = {
+  stop: 'end_turn',
+  tool_calls: 'tool_use',
+  function_call: 'tool_use',
+  length: 'max_tokens',
+  content_filter: 'refusal',
+};
+
+function stringifyContent(content: unknown): string {
+  return typeof content === 'string' ? content : JSON.stringify(content);
+}
+
+/** Image and PDF blocks become data-URL content parts. */
+function toMediaPart(block: ContentBlock): OpenAIContentPart | null {
+  if (!block.source) return null;
+  const dataUrl = `data:${block.source.media_type};base64,${block.source.data}`;
+  if (block.type === 'image') return { type: 'image_url', image_url: { url: dataUrl } };
+  if (block.type === 'document') return { type: 'file', file: { filename: block.title || 'document.pdf', file_data: dataUrl } };
+  return null;
+}
+
+/**
+ * Convert our messages into Chat Completions messages. A single user
+ * message carrying tool results becomes one `tool` message per result.
+ */
+export function toOpenAIMessages(systemPrompt: string, messages: Message[]): OpenAIMessage[] {
+  const out: OpenAIMessage[] = [{ role: 'system', content: systemPrompt }];
+
+  for (const msg of messages) {
+    if (typeof msg.content === 'string') {
+      out.push({ role: msg.role, content: msg.content });
+      continue;
+    }
+
+    const text = msg.content
+      .filter((b) => b.type === 'text' && b.text)
+      .map((b) => b.text)
+      .join('\n');
+
+    if (msg.role === 'assistant') {
+      const toolCalls: OpenAIToolCall[] = msg.content
+        .filter((b) => b.type === 'tool_use')
+        .map((b) => ({
+          id: b.id || '',
+          type: 'function',
+          function: { name: b.name || '', arguments: JSON.stringify(b.input ?? {}) },
+        }));
+      out.push({
+        role: 'assistant',
+        content: text || null,
+        ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+      });
+      continue;
+    }
+
+    for (const block of msg.content) {
+      if (block.type === 'tool_result') {
+        out.push({
+          role: 'tool',
+          tool_call_id: block.tool_use_id || '',
+          content: stringifyContent(block.content),
+        });
+      }
+    }
+    const media = msg.content.map(toMediaPart).filter((p): p is OpenAIContentPart => p !== null);
+    if (media.length > 0) {
+      out.push({ role: 'user', content: [...media, ...(text ? [{ type: 'text' as const, text }] : [])] });
+    } else if (text) {
+      out.push({ role: 'user', content: text });
+    }
+  }
+
+  return out;
+}
+
+export function toOpenAIToolChoice(choice: ToolChoice): unknown {
+  if (choice.type === 'tool') return { type: 'function', function: { name: choice.name } };
+  return choice.type === 'any' ? 'required' : 'auto';
+}
+
+/**
+ * Convert a Chat Completions response back into our LLMResponse shape.
+ */
+export function fromOpenAIResponse(data: OpenAIChatResponse): LLMResponse {
+  const choice = data.choices?.[0];
+  const cachedTokens = data.usage?.prompt_tokens_details?.cached_tokens || 0;
+  const content: ContentBlock[] = [];
+
+  if (choice?.message?.content) {
+    content.push({ type: 'text', text: choice.message.content });
+  }
+  for (const call of choice?.message?.tool_calls || []) {
+    let input: unknown = {};
+    try {
+      input = call.function.arguments ? JSON.parse(call.function.arguments) : {};
+    } catch {
+      input = { _raw: call.function.arguments };
+    }
+    content.push({ type: 'tool_use', id: call.id, name: call.function.name, input });
+  }
+
+  return {
+    id: data.id,
+    type: 'message',
+    role: 'assistant',
+    content,
+    model: data.model,
+    stop_reason: FINISH_REASONS[choice?.finish_reason || 'stop'] || 'end_turn',
+    usage: {
+      // OpenAI caches prompt prefixes automatically; cached tokens are included in prompt_tokens
+      input_tokens: (data.usage?.prompt_tokens || 0) - cachedTokens,
+      output_tokens: data.usage?.completion_tokens || 0,
+      cache_read_input_tokens: cachedTokens,
+    },
+  };
+}
+
+/**
+ * Rebuild a Chat Completions response from streamed `chat.completion.chunk`
+ * events. Tool call arguments arrive as string fragments keyed by index.
+ */
+export function createOpenAIAccumulator(onText: (delta: string) => void): LLMStreamAccumulator {
+  const merged: OpenAIChatResponse['choices'][number] = { message: { role: 'assistant', content: null }, finish_reason: null };
+  const response: OpenAIChatResponse = { id: '', model: '', choices: [merged] };
+  const toolCalls: OpenAIToolCall[] = [];
+
+  return {
+    push(event) {
+      if (event.data === '[DONE]') return;
+      const chunk = JSON.parse(event.data) as {
+        id?: string;
+        model?: string;
+        choices?: Array<{
+          delta?: {
+            content?: string | null;
+            tool_calls?: Array<{ index: number; id?: string; function?: { name?: string; arguments?: string } }>;
+          };
+          finish_reason?: string | null;
+        }>;
+        usage?: OpenAIChatResponse['usage'];
+        error?: unknown;
+      };
+      if (chunk.error) throw new Error(`LLM stream error: ${JSON.stringify(chunk.error)}`);
+
+      response.id = chunk.id || response.id;
+      response.model = chunk.model || response.model;
+      if (chunk.usage) response.usage = chunk.usage;
+
+      const choice = chunk.choices?.[0];
+      if (choice?.delta?.content) {
+        merged.message.content = (merged.message.content || '') + choice.delta.content;
+        onText(choice.delta.content);
+      }
+      for (const tc of choice?.delta?.tool_calls || []) {
+        const call = toolCalls[tc.index] ??= { id: '', type: 'function', function: { name: '', arguments: '' } };
+        if (tc.id) call.id = tc.id;
+        if (tc.function?.name) call.function.name += tc.function.name;
+        if (tc.function?.arguments) call.function.arguments += tc.function.arguments;
+      }
+      if (choice?.finish_reason) merged.finish_reason = choice.finish_reason;
+    },
+
+    finish() {
+      const calls = toolCalls.filter(Boolean);
+      if (calls.length > 0) merged.message.tool_calls = calls;
+      return fromOpenAIResponse(response);
+    },
+  };
+}
+
+const openaiAdapter: LLMAdapter = {
+  name: 'openai',
+  defaultBaseUrl: 'https://api.openai.com/v1',
+
+  buildRequest(opts, settings) {
+    const { systemPrompt, messages, tools } = opts;
+
+    const body: Record<string, unknown> = {
+      model: settings.model,
+      max_tokens: settings.maxTokens,
+      messages: toOpenAIMessages(systemPrompt, messages),
+    };
+
+    if (tools && tools.length > 0) {
+      body.tools = tools.map((t) => ({
+        type: 'function',
+        function: { name: t.name, description: t.description, parameters: t.input_schema },
+      }));
+      if (opts.toolChoice) body.tool_choice = toOpenAIToolChoice(opts.toolChoice);
+    }
+
+    if (opts.stream) {
+      body.stream = true;
+      body.stream_options = { include_usage: true };
+    }
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    // Local servers (Ollama, vLLM) usually run without a key
+    if (settings.apiKey) headers['Authorization'] = `Bearer ${settings.apiKey}`;
+
+    return { url: `${settings.baseUrl}/chat/completions`, headers, body };
+  },
+
+  parseResponse(data) {
+    return fromOpenAIResponse(data as OpenAIChatResponse);
+  },
+
+  createStreamAccumulator: createOpenAIAccumulator,
+};
+
+export default openaiAdapter;
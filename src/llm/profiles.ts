@@ -0,0 +1,135 @@
+// ============================================================================
+// DEVWEAVER – Model Profiles
+//
+// The `profile` in .planning/config.json (quality / balanced / budget) picks
+// a model tier and max_tokens for each agent: cheap models for routing and
+// ticket chores, the strongest model for writing and reviewing code.
+// Per-agent overrides live under `agentModels` in the same file.
+// ============================================================================
+
+import config from '../config.js';
+import logger from '../utils/logger.js';
+import { readConfig } from '../utils/docs.js';
+
+export type ModelTier = 'strong' | 'standard' | 'fast';
+export type ProfileName = 'quality' | 'balanced' | 'budget';
+
+export interface AgentModelSettings {
+  model?: string;
+  maxTokens?: number;
+}
+
+interface ProfileEntry {
+  tier: ModelTier;
+  maxTokens: number;
+}
+
+/** Concrete models behind each tier, per provider. */
+const TIER_MODELS: Record<string, Record<ModelTier, string>> = {
+  anthropic: {
+    strong: 'claude-opus-4-20250514',
+    standard: 'claude-sonnet-4-20250514',
+    fast: 'claude-3-5-haiku-20241022',
+  },
+  openai: {
+    strong: 'gpt-4.1',
+    standard: 'gpt-4.1',
+    fast: 'gpt-4.1-mini',
+  },
+  gemini: {
+    strong: 'gemini-2.5-pro',
+    standard: 'gemini-2.5-pro',
+    fast: 'gemini-2.5-flash',
+  },
+};
+
+export const PROFILES: Record<ProfileName, Record<string, ProfileEntry>> = {
+  quality: {
+    orchestrator: { tier: 'standard', maxTokens: 4096 },
+    feature_analysis: { tier: 'strong', maxTokens: 8192 },
+    jira_management: { tier: 'standard', maxTokens: 4096 },
+    code_analysis: { tier: 'strong', maxTokens: 8192 },
+    code_writer: { tier: 'strong', maxTokens: 16384 },
+    code_test: { tier: 'strong', maxTokens: 8192 },
+    code_review: { tier: 'strong', maxTokens: 8192 },
+    document_management: { tier: 'standard', maxTokens: 8192 },
+    diagram_generation: { tier: 'standard', maxTokens: 4096 },
+    researcher: { tier: 'strong', maxTokens: 8192 },
+    executor: { tier: 'strong', maxTokens: 16384 },
+    verifier: { tier: 'strong', maxTokens: 4096 },
+    compaction: { tier: 'standard', maxTokens: 4096 },
+  },
+  balanced: {
+    orchestrator: { tier: 'fast', maxTokens: 2048 },
+    feature_analysis: { tier: 'standard', maxTokens: 8192 },
+    jira_management: { tier: 'fast', maxTokens: 2048 },
+    code_analysis: { tier: 'standard', maxTokens: 8192 },
+    code_writer: { tier: 'strong', maxTokens: 8192 },
+    code_test: { tier: 'standard', maxTokens: 8192 },
+    code_review: { tier: 'strong', maxTokens: 8192 },
+    document_management: { tier: 'standard', maxTokens: 4096 },
+    diagram_generation: { tier: 'standard', maxTokens: 4096 },
+    researcher: { tier: 'standard', maxTokens: 4096 },
+    executor: { tier: 'strong', maxTokens: 8192 },
+    verifier: { tier: 'standard', maxTokens: 4096 },
+    compaction: { tier: 'fast', maxTokens: 2048 },
+  },
+  budget: {
+    orchestrator: { tier: 'fast', maxTokens: 2048 },
+    feature_analysis: { tier: 'standard', maxTokens: 4096 },
+    jira_management: { tier: 'fast', maxTokens: 2048 },
+    code_analysis: { tier: 'fast', maxTokens: 4096 },
+    code_writer: { tier: 'standard', maxTokens: 8192 },
+    code_test: { tier: 'standard', maxTokens: 4096 },
+    code_review: { tier: 'standard', maxTokens: 4096 },
+    document_management: { tier: 'fast', maxTokens: 4096 },
+    diagram_generation: { tier: 'fast', maxTokens: 4096 },
+    researcher: { tier: 'fast', maxTokens: 4096 },
+    executor: { tier: 'standard', maxTokens: 8192 },
+    verifier: { tier: 'fast', maxTokens: 2048 },
+    compaction: { tier: 'fast', maxTokens: 2048 },
+  },
+};
+
+function projectSettings(): Record<string, unknown> {
+  try {
+    return readConfig() || {};
+  } catch (err) {
+    logger.warn('Could not read .planning/config.json:', err instanceof Error ? err.message : String(err));
+    return {};
+  }
+}
+
+/**
+ * Name of the active profile, or null when the project has none configured.
+ */
+export function activeProfile(): ProfileName | null {
+  const profile = projectSettings().profile;
+  return typeof profile === 'string' && profile in PROFILES ? profile as ProfileName : null;
+}
+
+/**
+ * Resolve the model and max_tokens for an agent key (e.g. `code_writer`,
+ * `orchestrator`). Returns an empty object when nothing applies, so the
+ * caller falls back to `config.llm`.
+ */
+export function resolveModel(agentKey: string): AgentModelSettings {
+  const settings = projectSettings();
+  const profile = activeProfile();
+  const resolved: AgentModelSettings = {};
+
+  const entry = profile ? PROFILES[profile][agentKey] : undefined;
+  if (entry) {
+    // Local providers (Ollama, vLLM) have no tiers: keep the configured model
+    const tierModel = TIER_MODELS[config.llm.provider]?.[entry.tier];
+    if (tierModel) resolved.model = tierModel;
+    resolved.maxTokens = entry.maxTokens;
+  }
+
+  const overrides = (settings.agentModels || {}) as Record<string, AgentModelSettings>;
+  const override = overrides[agentKey];
+  if (override?.model) resolved.model = override.model;
+  if (override?.maxTokens) resolved.maxTokens = override.maxTokens;
+
+  return resolved;
+}
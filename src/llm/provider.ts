@@ -1,55 +1,184 @@
 // ============================================================================
-// DEVWEAVER – LLM Provider (Anthropic Claude via native HTTP)
+// DEVWEAVER – LLM Provider (pluggable adapters via native HTTP)
+//
+// `config.llm.provider` selects an adapter that translates our
+// Anthropic-shaped messages to and from the provider's wire format, so the
+// agent loop never needs to know which backend it is talking to.
 // ============================================================================
 
-import { request } from '../utils/http.js';
+import { request, requestStream } from '../utils/http.js';
 import config from '../config.js';
 import logger from '../utils/logger.js';
+import anthropicAdapter from './anthropic.js';
+import openaiAdapter from './openai.js';
+import geminiAdapter from './gemini.js';
+import { createSSEParser } from './sse.js';
+import { isAbortError } from '../utils/abort.js';
+import { withRetry, parseRetryAfter, LLMAPIError } from './retry.js';
+import { usageTracker, usageOf } from './usage.js';
+import { agentEvents } from '../agents/events.js';
 import type {
+  LLMAdapter,
   LLMCallOptions,
   LLMResponse,
   ContentBlock,
   ToolUseBlock
 } from '../types/index.js';
 
+const ADAPTERS: Record<string, LLMAdapter> = {
+  anthropic: anthropicAdapter,
+  openai: openaiAdapter,
+  gemini: geminiAdapter,
+  // OpenAI-compatible local servers
+  ollama: openaiAdapter,
+  vllm: openaiAdapter,
+  'openai-compatible': openaiAdapter,
+};
+
 /**
- * Call the Anthropic Messages API.
+ * Resolve the adapter for a provider name.
  */
-export async function callLLM(opts: LLMCallOptions): Promise<LLMResponse> {
-  const { systemPrompt, messages, tools, maxTokens } = opts;
+export function getAdapter(provider: string = config.llm.provider): LLMAdapter {
+  const adapter = ADAPTERS[provider.toLowerCase()];
+  if (!adapter) {
+    throw new Error(`Unknown LLM provider "${provider}". Supported: ${Object.keys(ADAPTERS).join(', ')}`);
+  }
+  return adapter;
+}
+
+/**
+ * Receives streamed text. `done` is true once per response, after the last delta.
+ */
+export type StreamListener = (agentName: string, delta: string, done: boolean) => void;
+
+/**
+ * Subscribe to streamed text from every LLM call. Returns an unsubscribe
+ * function. Shorthand for an `llm:text` handler on the agent event bus.
+ */
+export function onStreamText(listener: StreamListener): () => void {
+  return agentEvents.on('llm:text', ({ agent, delta, done }) => listener(agent, delta, done));
+}
 
-  const body: Record<string, unknown> = {
-    model: config.llm.model,
-    max_tokens: maxTokens || config.llm.maxTokens,
-    system: systemPrompt,
-    messages,
+/**
+ * Call the configured LLM provider.
+ */
+export async function callLLM(opts: LLMCallOptions): Promise<LLMResponse> {
+  const adapter = getAdapter();
+  // A provider borrowing another's adapter must not fall through to that provider's hosted API
+  if (!config.llm.baseUrl && adapter.name !== config.llm.provider.toLowerCase()) {
+    throw new Error(`No base URL configured for LLM provider "${config.llm.provider}": set DEVWEAVER_LLM_BASE_URL`);
+  }
+  const settings = {
+    model: opts.model || config.llm.model,
+    maxTokens: opts.maxTokens || config.llm.maxTokens,
+    apiKey: config.llm.apiKey,
+    baseUrl: (config.llm.baseUrl || adapter.defaultBaseUrl).replace(/\/+$/, ''),
   };
 
-  if (tools && tools.length > 0) {
-    body.tools = tools;
+  if (!settings.model) {
+    throw new Error(`No model configured for LLM provider "${config.llm.provider}": set DEVWEAVER_LLM_MODEL`);
   }
 
-  const headers = {
-    'x-api-key': config.llm.apiKey,
-    'anthropic-version': '2023-06-01',
-    'Content-Type': 'application/json',
-  };
+  // Only pay for streaming when somebody is going to display the output
+  const stream = opts.stream ?? (config.llm.stream && (!!opts.onText || agentEvents.listenerCount('llm:text') > 0));
+  const cache = opts.cache ?? config.llm.promptCaching;
+  const { url, headers, body } = adapter.buildRequest({ ...opts, stream, cache }, settings);
 
-  logger.debug('LLM request →', config.llm.model, `| msgs=${messages.length}`);
+  logger.debug('LLM request →', `${adapter.name}:${settings.model}`, `| msgs=${opts.messages.length}`, stream ? '| stream' : '');
 
-  const res = await request<LLMResponse>(`${config.llm.baseUrl}/v1/messages`, {
-    method: 'POST',
-    headers,
-    body,
-    timeout: 120_000,
+  const agentName = opts.agentName || 'LLM';
+  usageTracker.assertWithinBudget();
+
+  agentEvents.emit('llm:request', {
+    runId: opts.runId,
+    agent: agentName,
+    model: settings.model,
+    messageCount: opts.messages.length,
+    toolCount: opts.tools?.length ?? 0,
+    stream,
   });
+  const startedAt = Date.now();
 
-  if (res.status !== 200) {
-    logger.error('LLM error', res.status, JSON.stringify(res.data).slice(0, 500));
-    throw new Error(`LLM API error ${res.status}: ${JSON.stringify(res.data)}`);
-  }
+  const response = await withRetry(
+    async () => {
+      if (stream) {
+        return streamLLM(adapter, url, headers, body, agentName, opts.onText, opts.signal);
+      }
+
+      const res = await request<unknown>(url, {
+        method: 'POST',
+        headers,
+        body,
+        timeout: 120_000,
+        tag: 'llm',
+        signal: opts.signal,
+      });
+
+      if (res.status !== 200) throw apiError(res.status, res.headers, res.data);
+
+      return adapter.parseResponse(res.data);
+    },
+    config.llm.retry,
+    ({ attempt, maxRetries, delayMs, reason }) => {
+      logger.warn(`[${agentName}] LLM ${reason} — waiting ${(delayMs / 1000).toFixed(1)}s before retry ${attempt}/${maxRetries}...`);
+    },
+    opts.signal
+  );
+
+  const usage = usageOf(response, response.model || settings.model);
+  usageTracker.record(agentName, usage);
+  agentEvents.emit('llm:response', {
+    runId: opts.runId,
+    agent: agentName,
+    model: response.model || settings.model,
+    response,
+    usage,
+    durationMs: Date.now() - startedAt,
+  });
+  return response;
+}
+
+function apiError(status: number, headers: Record<string, string>, data: unknown): LLMAPIError {
+  logger.debug('LLM error', status, JSON.stringify(data).slice(0, 500));
+  return new LLMAPIError(status, `LLM API error ${status}: ${JSON.stringify(data)}`, parseRetryAfter(headers));
+}
+
+async function streamLLM(
+  adapter: LLMAdapter,
+  url: string,
+  headers: Record<string, string>,
+  body: Record<string, unknown>,
+  agentName: string,
+  onText?: (delta: string) => void,
+  signal?: AbortSignal
+): Promise<LLMResponse> {
+  let streamedText = false;
+  const accumulator = adapter.createStreamAccumulator((delta) => {
+    streamedText = true;
+    onText?.(delta);
+    agentEvents.emit('llm:text', { agent: agentName, delta, done: false });
+  });
+  const parser = createSSEParser((event) => accumulator.push(event));
+
+  try {
+    const res = await requestStream(url, { method: 'POST', headers, body, timeout: 120_000, tag: 'llm', signal }, (chunk) => parser.push(chunk));
 
-  return res.data;
+    if (res.status !== 200) throw apiError(res.status, res.headers, res.data);
+
+    parser.flush();
+    return accumulator.finish();
+  } catch (err) {
+    // Text already shown to the user cannot be taken back, so don't retry
+    if (streamedText && !isAbortError(err)) {
+      if (err instanceof LLMAPIError) err.retryable = false;
+      else throw new Error(`LLM stream interrupted: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    throw err;
+  } finally {
+    if (streamedText) {
+      agentEvents.emit('llm:text', { agent: agentName, delta: '', done: true });
+    }
+  }
 }
 
 /**
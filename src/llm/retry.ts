@@ -0,0 +1,115 @@
+// ============================================================================
+// DEVWEAVER – LLM Retry Policy
+//
+// Rate limits (429), overload (529) and transient 5xx / network failures are
+// retried with jittered exponential backoff, honouring `retry-after` when the
+// provider sends it. Anything else fails fast.
+// ============================================================================
+
+import { isAbortError, sleep, throwIfAborted } from '../utils/abort.js';
+import type { RetryConfig } from '../types/index.js';
+
+const RETRYABLE_STATUSES = new Set([408, 409, 429, 500, 502, 503, 504, 529]);
+
+const RETRYABLE_NETWORK_CODES = new Set([
+  'ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN', 'ENETUNREACH', 'EHOSTUNREACH',
+]);
+
+/**
+ * Error returned by an LLM provider, carrying what the retry policy needs.
+ */
+export class LLMAPIError extends Error {
+  readonly status: number;
+  readonly retryAfterMs?: number;
+  /** False once partial output has been streamed; retrying would duplicate it. */
+  retryable: boolean;
+
+  constructor(status: number, message: string, retryAfterMs?: number) {
+    super(message);
+    this.name = 'LLMAPIError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+    this.retryable = RETRYABLE_STATUSES.has(status);
+  }
+}
+
+export interface RetryNotice {
+  attempt: number;
+  maxRetries: number;
+  delayMs: number;
+  reason: string;
+}
+
+/**
+ * Parse `retry-after-ms` / `retry-after` (seconds or HTTP date) into milliseconds.
+ */
+export function parseRetryAfter(headers: Record<string, string | string[] | undefined>): number | undefined {
+  const ms = headers['retry-after-ms'];
+  if (typeof ms === 'string' && !Number.isNaN(Number(ms))) return Number(ms);
+
+  const value = headers['retry-after'];
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Decide whether an error is worth retrying.
+ */
+export function isRetryable(err: unknown): boolean {
+  if (isAbortError(err)) return false;
+  if (err instanceof LLMAPIError) return err.retryable;
+  if (!(err instanceof Error)) return false;
+
+  const code = (err as NodeJS.ErrnoException).code;
+  if (code && RETRYABLE_NETWORK_CODES.has(code)) return true;
+  return err.message === 'Request timed out' || err.message === 'socket hang up';
+}
+
+/**
+ * Full-jitter exponential backoff: a random delay in [0, min(max, base * 2^attempt)].
+ */
+export function backoffDelay(attempt: number, policy: RetryConfig, random: () => number = Math.random): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.round(random() * ceiling);
+}
+
+function describe(err: unknown): string {
+  if (err instanceof LLMAPIError) {
+    if (err.status === 429) return 'rate limited (429)';
+    if (err.status === 529) return 'overloaded (529)';
+    return `server error (${err.status})`;
+  }
+  return `network error (${err instanceof Error ? err.message : String(err)})`;
+}
+
+/**
+ * Run `fn`, retrying transient failures according to `policy`.
+ * `onRetry` is called before each wait so callers can tell the user;
+ * aborting `signal` cuts a wait short.
+ */
+export async function withRetry<T>(
+  fn: (attempt: number) => Promise<T>,
+  policy: RetryConfig,
+  onRetry?: (notice: RetryNotice) => void,
+  signal?: AbortSignal
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    throwIfAborted(signal);
+    try {
+      return await fn(attempt);
+    } catch (err) {
+      if (attempt >= policy.maxRetries || !isRetryable(err)) throw err;
+
+      const hinted = err instanceof LLMAPIError ? err.retryAfterMs : undefined;
+      const delayMs = Math.min(policy.maxDelayMs, hinted ?? backoffDelay(attempt, policy));
+
+      onRetry?.({ attempt: attempt + 1, maxRetries: policy.maxRetries, delayMs, reason: describe(err) });
+      await sleep(delayMs, signal);
+    }
+  }
+}
@@ -0,0 +1,58 @@
+// ============================================================================
+// DEVWEAVER – Server-Sent Events Parser
+// ============================================================================
+
+import type { SSEEvent } from '../types/index.js';
+
+export interface SSEParser {
+  /** Feed a raw chunk of the response body. */
+  push: (chunk: string) => void;
+  /** Emit any event left in the buffer once the stream has ended. */
+  flush: () => void;
+}
+
+/**
+ * Create an incremental SSE parser. Events may be split across chunks;
+ * each complete event is passed to `onEvent`.
+ */
+export function createSSEParser(onEvent: (event: SSEEvent) => void): SSEParser {
+  let buffer = '';
+
+  function emit(block: string): void {
+    let event: string | undefined;
+    const data: string[] = [];
+
+    for (const line of block.split('\n')) {
+      if (!line || line.startsWith(':')) continue;
+      const colon = line.indexOf(':');
+      const field = colon === -1 ? line : line.slice(0, colon);
+      const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+      if (field === 'event') event = value;
+      else if (field === 'data') data.push(value);
+    }
+
+    if (data.length > 0) onEvent({ event, data: data.join('\n') });
+  }
+
+  return {
+    push(chunk: string): void {
+      buffer += chunk;
+      // A trailing \r may be the first half of a \r\n split across chunks
+      const pending = buffer.endsWith('\r') ? '\r' : '';
+      buffer = buffer.slice(0, buffer.length - pending.length).replace(/\r\n?/g, '\n');
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        emit(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf('\n\n');
+      }
+      buffer += pending;
+    },
+
+    flush(): void {
+      buffer = buffer.replace(/\r\n?/g, '\n');
+      if (buffer.trim()) emit(buffer);
+      buffer = '';
+    },
+  };
+}
@@ -0,0 +1,142 @@
+// ============================================================================
+// DEVWEAVER – Token Usage & Cost Accounting
+//
+// Every LLM response is priced against a per-model table (USD per million
+// tokens) and added to the session totals. A session budget stops runaway
+// agent loops before they spend real money.
+// ============================================================================
+
+import config from '../config.js';
+import logger from '../utils/logger.js';
+import type { LLMResponse, ModelPrice, UsageTotals } from '../types/index.js';
+
+/**
+ * Default list prices in USD per million tokens. Keys match by prefix, so
+ * `claude-sonnet-4` covers dated snapshots like `claude-sonnet-4-20250514`.
+ * Override or extend with DEVWEAVER_LLM_PRICING.
+ */
+export const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'claude-opus-4': { input: 15, output: 75 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6, cacheRead: 0.1 },
+  'gpt-4.1': { input: 2, output: 8, cacheRead: 0.5 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6, cacheRead: 0.075 },
+  'gpt-4o': { input: 2.5, output: 10, cacheRead: 1.25 },
+  'gemini-2.5-pro': { input: 1.25, output: 10, cacheRead: 0.31 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5, cacheRead: 0.075 },
+};
+
+export class BudgetExceededError extends Error {
+  constructor(spentUsd: number, budgetUsd: number) {
+    super(`Session budget exceeded: $${spentUsd.toFixed(4)} spent of $${budgetUsd.toFixed(2)} allowed`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+export function emptyUsage(): UsageTotals {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0, costUsd: 0 };
+}
+
+/**
+ * Add `other` into `into` in place.
+ */
+export function addUsage(into: UsageTotals, other: UsageTotals): UsageTotals {
+  into.calls += other.calls;
+  into.inputTokens += other.inputTokens;
+  into.outputTokens += other.outputTokens;
+  into.cacheReadTokens += other.cacheReadTokens;
+  into.cacheWriteTokens += other.cacheWriteTokens;
+  into.costUsd += other.costUsd;
+  return into;
+}
+
+/**
+ * Look up the price for a model: exact match first, then the longest prefix.
+ */
+export function priceFor(model: string): ModelPrice | undefined {
+  const table = { ...DEFAULT_PRICES, ...config.llm.pricing };
+  if (table[model]) return table[model];
+
+  const prefix = Object.keys(table)
+    .filter((key) => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? table[prefix] : undefined;
+}
+
+/**
+ * Usage and cost of a single LLM response.
+ */
+export function usageOf(response: LLMResponse, model: string = response.model || config.llm.model): UsageTotals {
+  const inputTokens = response.usage?.input_tokens || 0;
+  const outputTokens = response.usage?.output_tokens || 0;
+  const cacheReadTokens = response.usage?.cache_read_input_tokens || 0;
+  const cacheWriteTokens = response.usage?.cache_creation_input_tokens || 0;
+  const price = priceFor(model);
+
+  const costUsd = price
+    ? (inputTokens * price.input
+      + outputTokens * price.output
+      + cacheReadTokens * (price.cacheRead ?? price.input * 0.1)
+      + cacheWriteTokens * (price.cacheWrite ?? price.input * 1.25)) / 1_000_000
+    : 0;
+
+  return { calls: 1, inputTokens, outputTokens, cacheReadTokens, cacheWriteTokens, costUsd };
+}
+
+/**
+ * One-line human summary, e.g. "3 calls · 12.4k in / 1.2k out · $0.0551",
+ * with cache read/write tokens when there are any.
+ */
+export function formatUsage(usage: UsageTotals): string {
+  const k = (n: number): string => (n >= 1000 ? `${(n / 1000).toFixed(1)}k` : String(n));
+  const cache = usage.cacheReadTokens || usage.cacheWriteTokens
+    ? ` · cache ${k(usage.cacheReadTokens)} read / ${k(usage.cacheWriteTokens)} write`
+    : '';
+  return `${usage.calls} call${usage.calls === 1 ? '' : 's'} · ${k(usage.inputTokens)} in / ${k(usage.outputTokens)} out${cache} · $${usage.costUsd.toFixed(4)}`;
+}
+
+// ── Session Tracker ─────────────────────────────────────────────────────────
+
+class UsageTracker {
+  session: UsageTotals = emptyUsage();
+  byAgent: Map<string, UsageTotals> = new Map();
+  private warned = false;
+
+  /**
+   * Record one LLM call against the session and the calling agent.
+   */
+  record(agentName: string, usage: UsageTotals): void {
+    addUsage(this.session, usage);
+    let agentTotals = this.byAgent.get(agentName);
+    if (!agentTotals) this.byAgent.set(agentName, agentTotals = emptyUsage());
+    addUsage(agentTotals, usage);
+
+    const budget = config.agent.budgetUsd;
+    if (budget > 0 && !this.warned && this.session.costUsd >= budget * 0.8) {
+      this.warned = true;
+      logger.warn(`Session spend is at $${this.session.costUsd.toFixed(4)} — 80% of the $${budget.toFixed(2)} budget`);
+    }
+  }
+
+  /**
+   * Throw before a call once the session budget is spent.
+   */
+  assertWithinBudget(): void {
+    const budget = config.agent.budgetUsd;
+    if (budget > 0 && this.session.costUsd >= budget) {
+      throw new BudgetExceededError(this.session.costUsd, budget);
+    }
+  }
+
+  reset(): void {
+    this.session = emptyUsage();
+    this.byAgent.clear();
+    this.warned = false;
+  }
+}
+
+// Singleton
+export const usageTracker = new UsageTracker();
@@ -60,6 +60,179 @@ async function runTests(): Promise<void> {
   const result = await registry.execute('test_tool', { hello: 'world' }) as any;
   assert(result.data?.echo?.hello === 'world', 'Tool execution works');
 
+  // ── Test: LLM Provider Adapters ─────────────────────────────────────
+  console.log('\x1b[33mLLM Provider Adapters:\x1b[0m');
+  const { getAdapter, callLLM } = await import('../llm/provider.js');
+  const { toOpenAIMessages, fromOpenAIResponse } = await import('../llm/openai.js');
+  const { toGeminiContents, fromGeminiResponse } = await import('../llm/gemini.js');
+  assert(getAdapter('anthropic').name === 'anthropic', 'Resolves anthropic adapter');
+  assert(getAdapter('ollama').name === 'openai', 'Ollama uses the OpenAI-compatible adapter');
+  const llmConfig = (await import('../config.js')).default.llm;
+  const savedAdapterConfig = { provider: llmConfig.provider, baseUrl: llmConfig.baseUrl, model: llmConfig.model };
+  Object.assign(llmConfig, { provider: 'openai-compatible', baseUrl: '', model: 'local-model' });
+  let missingBaseUrl = '';
+  try {
+    await callLLM({ systemPrompt: 'x', messages: [{ role: 'user', content: 'hi' }] });
+  } catch (err) {
+    missingBaseUrl = err instanceof Error ? err.message : String(err);
+  }
+  assert(missingBaseUrl.includes('DEVWEAVER_LLM_BASE_URL'), 'openai-compatible without a base URL fails instead of calling api.openai.com');
+  Object.assign(llmConfig, savedAdapterConfig);
+
+  const roundTrip = [
+    { role: 'user' as const, content: 'read a file' },
+    { role: 'assistant' as const, content: [{ type: 'tool_use' as const, id: 'call_1', name: 'code_read_file', input: { filePath: 'a.ts' } }] },
+    { role: 'user' as const, content: [{ type: 'tool_result' as const, tool_use_id: 'call_1', content: '{"lines":3}' }] },
+  ];
+  const oaMessages = toOpenAIMessages('sys', roundTrip);
+  assert(oaMessages[0]?.role === 'system', 'OpenAI: system prompt becomes a system message');
+  assert(oaMessages[2]?.tool_calls?.[0]?.function.name === 'code_read_file', 'OpenAI: tool_use becomes tool_calls');
+  assert(oaMessages[3]?.role === 'tool' && oaMessages[3]?.tool_call_id === 'call_1', 'OpenAI: tool_result becomes a tool message');
+  const oaResponse = fromOpenAIResponse({
+    id: 'r1', model: 'gpt',
+    choices: [{ message: { role: 'assistant', content: null, tool_calls: [{ id: 'c2', type: 'function', function: { name: 'jira_search', arguments: '{"jql":"x"}' } }] }, finish_reason: 'tool_calls' }],
+  });
+  assert(oaResponse.stop_reason === 'tool_use', 'OpenAI: finish_reason maps to stop_reason');
+  assert((oaResponse.content[0]?.input as { jql?: string })?.jql === 'x', 'OpenAI: tool arguments are parsed');
+
+  const gContents = toGeminiContents(roundTrip);
+  assert(gContents[1]?.role === 'model', 'Gemini: assistant becomes model');
+  assert(gContents[2]?.parts[0]?.functionResponse?.name === 'code_read_file', 'Gemini: tool_result resolves function name');
+  const gResponse = fromGeminiResponse({
+    responseId: 'g1',
+    candidates: [{ content: { parts: [{ functionCall: { name: 'code_search', args: { pattern: 'x' } } }] }, finishReason: 'STOP' }],
+  });
+  assert(gResponse.stop_reason === 'tool_use' && gResponse.content[0]?.id === 'g1_call_0', 'Gemini: function calls get stable ids');
+
+  // ── Test: LLM Streaming ─────────────────────────────────────────────
+  console.log('\x1b[33mLLM Streaming:\x1b[0m');
+  const { createSSEParser } = await import('../llm/sse.js');
+  const { createAnthropicAccumulator } = await import('../llm/anthropic.js');
+  const { createOpenAIAccumulator } = await import('../llm/openai.js');
+
+  const sseEvents: Array<{ event?: string; data: string }> = [];
+  const sse = createSSEParser((e) => sseEvents.push(e));
+  sse.push('event: ping\ndata: {"a"');
+  sse.push(':1}\n\ndata: second\r\n\r\n');
+  sse.flush();
+  assert(sseEvents.length === 2 && sseEvents[0]?.event === 'ping' && sseEvents[0]?.data === '{"a":1}', 'SSE parser joins events split across chunks');
+  sseEvents.length = 0;
+  sse.push('data: {"b":\r');
+  sse.push('\ndata: 2}\r');
+  sse.push('\n\r\n');
+  sse.flush();
+  assert(sseEvents.length === 1 && sseEvents[0]?.data === '{"b":\n2}', 'SSE parser keeps a CRLF split across chunks as one line break');
+
+  const { requestStream } = await import('../utils/http.js');
+  const splitServer = (await import('node:http')).createServer((_req, res) => {
+    const body = Buffer.from('data: a—b\n\n');
+    res.writeHead(200, { 'content-type': 'text/event-stream' });
+    res.write(body.subarray(0, 9)); // ends inside the three bytes of the em-dash
+    setTimeout(() => res.end(body.subarray(9)), 20);
+  });
+  await new Promise<void>((resolve) => splitServer.listen(0, '127.0.0.1', resolve));
+  let splitText = '';
+  await requestStream(`http://127.0.0.1:${(splitServer.address() as { port: number }).port}/`, {}, (chunk) => { splitText += chunk; });
+  await new Promise<void>((resolve) => splitServer.close(() => resolve()));
+  assert(splitText === 'data: a—b\n\n', 'Streamed text keeps multi-byte characters split across chunks');
+
+  let streamed = '';
+  const anthropicStream = createAnthropicAccumulator((d) => { streamed += d; });
+  [
+    { type: 'message_start', message: { id: 'm1', type: 'message', role: 'assistant', content: [], model: 'claude', stop_reason: null, usage: { input_tokens: 5, output_tokens: 0 } } },
+    { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+    { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Hel' } },
+    { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'lo' } },
+    { type: 'content_block_start', index: 1, content_block: { type: 'tool_use', id: 't1', name: 'code_search', input: {} } },
+    { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '{"pattern":' } },
+    { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '"x"}' } },
+    { type: 'content_block_stop', index: 1 },
+    { type: 'message_delta', delta: { stop_reason: 'tool_use' }, usage: { output_tokens: 9 } },
+  ].forEach((e) => anthropicStream.push({ data: JSON.stringify(e) }));
+  const anthropicFinal = anthropicStream.finish();
+  assert(streamed === 'Hello' && anthropicFinal.content[0]?.text === 'Hello', 'Anthropic: text deltas are reassembled');
+  assert((anthropicFinal.content[1]?.input as { pattern?: string })?.pattern === 'x', 'Anthropic: tool input JSON deltas are reassembled');
+  assert(anthropicFinal.stop_reason === 'tool_use' && anthropicFinal.usage.output_tokens === 9, 'Anthropic: stop_reason and usage come from message_delta');
+
+  const openaiStream = createOpenAIAccumulator(() => {});
+  [
+    { id: 'c1', model: 'gpt', choices: [{ delta: { tool_calls: [{ index: 0, id: 'call_9', function: { name: 'jira_get_issue', arguments: '{"issue' } }] } }] },
+    { id: 'c1', choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: 'Key":"P-1"}' } }] }, finish_reason: 'tool_calls' }] },
+  ].forEach((e) => openaiStream.push({ data: JSON.stringify(e) }));
+  openaiStream.push({ data: '[DONE]' });
+  const openaiFinal = openaiStream.finish();
+  assert((openaiFinal.content[0]?.input as { issueKey?: string })?.issueKey === 'P-1', 'OpenAI: streamed tool arguments are reassembled');
+
+  // ── Test: LLM Retry Policy ──────────────────────────────────────────
+  console.log('\x1b[33mLLM Retry Policy:\x1b[0m');
+  const { withRetry, parseRetryAfter, backoffDelay, isRetryable, LLMAPIError } = await import('../llm/retry.js');
+  assert(parseRetryAfter({ 'retry-after': '2' }) === 2000, 'retry-after seconds are parsed');
+  assert(parseRetryAfter({ 'retry-after-ms': '150' }) === 150, 'retry-after-ms takes precedence');
+  const policy = { maxRetries: 3, baseDelayMs: 1, maxDelayMs: 5 };
+  assert(backoffDelay(10, policy, () => 1) === 5, 'Backoff is capped at maxDelayMs');
+  assert(isRetryable(new LLMAPIError(529, 'overloaded')) && !isRetryable(new LLMAPIError(400, 'bad request')), 'Only transient statuses are retryable');
+
+  let attempts = 0;
+  const notices: number[] = [];
+  const retried = await withRetry(async () => {
+    attempts++;
+    if (attempts < 3) throw new LLMAPIError(429, 'rate limited', 1);
+    return 'ok';
+  }, policy, (n) => notices.push(n.attempt));
+  assert(retried === 'ok' && attempts === 3 && notices.join() === '1,2', 'Rate-limited calls are retried and reported');
+
+  let fatalAttempts = 0;
+  try {
+    await withRetry(async () => { fatalAttempts++; throw new LLMAPIError(401, 'unauthorized'); }, policy);
+  } catch {
+    // expected
+  }
+  assert(fatalAttempts === 1, 'Non-retryable errors fail fast');
+
+  // ── Test: Usage Accounting ──────────────────────────────────────────
+  console.log('\x1b[33mUsage Accounting:\x1b[0m');
+  const { usageOf, addUsage, emptyUsage, priceFor } = await import('../llm/usage.js');
+  assert(priceFor('claude-sonnet-4-20250514')?.input === 3, 'Dated model names match price-table prefixes');
+  assert(priceFor('gpt-4o-mini')?.input === 0.15, 'Longest matching prefix wins');
+  const callUsage = usageOf({
+    id: 'u1', type: 'message', role: 'assistant', content: [], model: 'claude-sonnet-4-20250514',
+    stop_reason: 'end_turn', usage: { input_tokens: 1_000_000, output_tokens: 100_000 },
+  });
+  assert(Math.abs(callUsage.costUsd - 4.5) < 1e-9, 'Cost is computed from the price table');
+  const totals = addUsage(addUsage(emptyUsage(), callUsage), callUsage);
+  assert(totals.calls === 2 && totals.inputTokens === 2_000_000, 'Usage totals accumulate');
+
+  // ── Test: Prompt Caching ────────────────────────────────────────────
+  console.log('\x1b[33mPrompt Caching:\x1b[0m');
+  const anthropic = (await import('../llm/anthropic.js')).default;
+  const cachedReq = anthropic.buildRequest(
+    {
+      systemPrompt: 'sys',
+      messages: [{ role: 'user', content: 'hi' }],
+      tools: [
+        { name: 'a', description: 'a', input_schema: { type: 'object', properties: {} } },
+        { name: 'b', description: 'b', input_schema: { type: 'object', properties: {} } },
+      ],
+      cache: true,
+    },
+    { model: 'claude', maxTokens: 10, apiKey: 'k', baseUrl: 'http://x' }
+  );
+  const cachedTools = cachedReq.body.tools as Array<{ cache_control?: unknown }>;
+  const cachedMsgs = cachedReq.body.messages as Array<{ content: Array<{ cache_control?: unknown }> }>;
+  assert(Array.isArray(cachedReq.body.system), 'System prompt is sent as a cacheable block');
+  assert(!cachedTools[0]?.cache_control && !!cachedTools[1]?.cache_control, 'Only the last tool carries a cache breakpoint');
+  assert(!!cachedMsgs[0]?.content[0]?.cache_control, 'Last message marks the cacheable prefix');
+  const cacheUsage = usageOf({
+    id: 'u2', type: 'message', role: 'assistant', content: [], model: 'claude-sonnet-4',
+    stop_reason: 'end_turn', usage: { input_tokens: 0, output_tokens: 0, cache_read_input_tokens: 1_000_000 },
+  });
+  assert(cacheUsage.cacheReadTokens === 1_000_000 && Math.abs(cacheUsage.costUsd - 0.3) < 1e-9, 'Cache reads are reported and priced');
+  const oaCached = fromOpenAIResponse({
+    id: 'r2', model: 'gpt', choices: [{ message: { role: 'assistant', content: 'x' }, finish_reason: 'stop' }],
+    usage: { prompt_tokens: 100, completion_tokens: 1, prompt_tokens_details: { cached_tokens: 80 } },
+  });
+  assert(oaCached.usage.input_tokens === 20 && oaCached.usage.cache_read_input_tokens === 80, 'OpenAI cached tokens are split from input tokens');
+
   // ── Test: Config ────────────────────────────────────────────────────
   console.log('\x1b[33mConfiguration:\x1b[0m');
   const config = (await import('../config.js')).default;
@@ -69,6 +242,9 @@ async function runTests(): Promise<void> {
   assert(config.bitbucket !== undefined, 'Config has bitbucket section');
   assert(config.mcp !== undefined, 'Config has mcp section');
   assert(config.agent !== undefined, 'Config has agent section');
+  const { defaultModel, defaultBaseUrl } = await import('../config.js');
+  assert(defaultModel('openai') === 'gpt-4.1' && defaultModel('gemini') === 'gemini-2.5-pro' && defaultModel('ollama') === '', 'Each hosted provider has its own default model');
+  assert(defaultBaseUrl('ollama') === 'http://localhost:11434/v1' && defaultBaseUrl('openai') === '', 'Local servers default to their local endpoint');
 
   // ── Test: Jira Tools Schema ─────────────────────────────────────────
   console.log('\x1b[33mJira Tools:\x1b[0m');
@@ -162,6 +338,1010 @@ async function runTests(): Promise<void> {
     'Routes diagram requests'
   );
 
+  // ── Test: Record / Replay ───────────────────────────────────────────
+  console.log('\x1b[33mRecord / Replay:\x1b[0m');
+  const http = await import('node:http');
+  const os = await import('node:os');
+  const nodePath = await import('node:path');
+  const cassette = (await import('../utils/cassette.js')).default;
+  const { runAgent } = await import('../agents/engine.js');
+
+  // A fake Messages API: first asks for test_tool, then finishes
+  let llmCalls = 0;
+  const fakeApi = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', (c: Buffer) => { raw += c.toString(); });
+    req.on('end', () => {
+      llmCalls++;
+      const body = JSON.parse(raw) as { messages: unknown[] };
+      const content = body.messages.length === 1
+        ? [{ type: 'tool_use', id: 'toolu_1', name: 'test_tool', input: { ping: true } }]
+        : [{ type: 'text', text: 'All done' }];
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({
+        id: `msg_${llmCalls}`, type: 'message', role: 'assistant', content, model: 'claude-sonnet-4',
+        stop_reason: body.messages.length === 1 ? 'tool_use' : 'end_turn', usage: { input_tokens: 10, output_tokens: 5 },
+      }));
+    });
+  });
+  await new Promise<void>((resolve) => fakeApi.listen(0, '127.0.0.1', resolve));
+  const port = (fakeApi.address() as { port: number }).port;
+
+  const savedLLM = { ...config.llm };
+  Object.assign(config.llm, { provider: 'anthropic', baseUrl: `http://127.0.0.1:${port}`, stream: false });
+  const cassetteFile = nodePath.join(os.tmpdir(), `devweaver-cassette-${process.pid}.json`);
+  const agentRun = { name: 'CassetteTest', systemPrompt: 'test', userMessage: 'ping the tool', toolNames: ['test_tool'] };
+
+  cassette.start('record', cassetteFile);
+  const recorded = await runAgent(agentRun);
+  cassette.stop();
+  await new Promise<void>((resolve) => fakeApi.close(() => resolve()));
+  assert(recorded.result === 'All done' && llmCalls === 2, 'Records a full agent run against the API');
+
+  cassette.start('replay', cassetteFile);
+  const replayed = await runAgent(agentRun);
+  const unused = cassette.stop();
+  assert(replayed.result === 'All done' && replayed.toolCalls.length === 1 && unused === 0, 'Replays the agent run offline');
+
+  cassette.start('replay', cassetteFile);
+  let mismatch = '';
+  try {
+    await runAgent({ ...agentRun, userMessage: 'something else' });
+  } catch (err) {
+    mismatch = (err as Error).name;
+  }
+  cassette.stop();
+  assert(mismatch === 'CassetteMismatchError', 'Unmatched requests fail in replay mode');
+  Object.assign(config.llm, savedLLM);
+  (await import('node:fs')).rmSync(cassetteFile, { force: true });
+
+  // ── Test: Model Profiles ────────────────────────────────────────────
+  console.log('\x1b[33mModel Profiles:\x1b[0m');
+  const fs = await import('node:fs');
+  const { resolveModel } = await import('../llm/profiles.js');
+  const projectDir = fs.mkdtempSync(nodePath.join(os.tmpdir(), 'devweaver-profile-'));
+  const originalCwd = process.cwd();
+  const savedProvider = config.llm.provider;
+  process.chdir(projectDir);
+  config.llm.provider = 'anthropic';
+
+  assert(resolveModel('code_writer').model === undefined, 'No profile without .planning/config.json');
+  fs.mkdirSync('.planning');
+  fs.writeFileSync('.planning/config.json', JSON.stringify({
+    profile: 'balanced',
+    agentModels: { jira_management: { model: 'custom-model', maxTokens: 1234 } },
+  }));
+  assert(resolveModel('code_writer').model === 'claude-opus-4-20250514', 'Balanced profile gives code_writer the strong model');
+  assert(resolveModel('orchestrator').model === 'claude-3-5-haiku-20241022', 'Balanced profile routes with the fast model');
+  const jiraModel = resolveModel('jira_management');
+  assert(jiraModel.model === 'custom-model' && jiraModel.maxTokens === 1234, 'Per-agent overrides win over the profile');
+  config.llm.provider = 'ollama';
+  const localModel = resolveModel('code_writer');
+  assert(localModel.model === undefined && localModel.maxTokens === 8192, 'Local providers keep the configured model');
+
+  config.llm.provider = savedProvider;
+  process.chdir(originalCwd);
+  fs.rmSync(projectDir, { recursive: true, force: true });
+
+  // ── Test: Attachments ───────────────────────────────────────────────
+  console.log('\x1b[33mAttachments:\x1b[0m');
+  const { parseAttachments, loadAttachment } = await import('../utils/attachments.js');
+  const attachDir = fs.mkdtempSync(nodePath.join(os.tmpdir(), 'devweaver-attach-'));
+  fs.writeFileSync(nodePath.join(attachDir, 'wireframe.png'), Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+  fs.writeFileSync(nodePath.join(attachDir, 'spec v2.pdf'), '%PDF-1.4');
+  fs.writeFileSync(nodePath.join(attachDir, 'notes.txt'), 'x');
+
+  const parsedInput = parseAttachments('Build @wireframe.png per @"spec v2.pdf", cc @alice', attachDir);
+  assert(parsedInput.attachments.length === 2, 'Parses @path and @"quoted path" attachments');
+  assert(parsedInput.attachments[0]?.type === 'image' && parsedInput.attachments[0].source?.media_type === 'image/png', 'PNG becomes an image block');
+  assert(parsedInput.attachments[1]?.type === 'document' && parsedInput.attachments[1].title === 'spec v2.pdf', 'PDF becomes a document block');
+  assert(parsedInput.message === 'Build [attached: wireframe.png] per [attached: spec v2.pdf], cc @alice', 'Non-file mentions are left alone');
+  let unsupported = '';
+  try {
+    loadAttachment('notes.txt', attachDir);
+  } catch (err) {
+    unsupported = (err as Error).message;
+  }
+  assert(unsupported.includes('Unsupported attachment type'), 'Unsupported file types are rejected');
+
+  const mediaMessages = [{ role: 'user' as const, content: [...parsedInput.attachments, { type: 'text' as const, text: 'go' }] }];
+  const oaMedia = toOpenAIMessages('sys', mediaMessages)[1]?.content as Array<{ type: string }>;
+  assert(oaMedia.map((p) => p.type).join() === 'image_url,file,text', 'OpenAI receives image_url and file parts');
+  const gMedia = toGeminiContents(mediaMessages)[0]?.parts || [];
+  assert(gMedia[0]?.inlineData?.mimeType === 'image/png' && gMedia[1]?.inlineData?.mimeType === 'application/pdf', 'Gemini receives inlineData parts');
+  fs.rmSync(attachDir, { recursive: true, force: true });
+
+  // ── Test: Parallel Tool Calls ───────────────────────────────────────
+  console.log('\x1b[33mParallel Tool Calls:\x1b[0m');
+  const { mapWithConcurrency } = await import('../utils/concurrency.js');
+  const { batchToolCalls } = await import('../agents/engine.js');
+  let inFlight = 0;
+  let peak = 0;
+  const mapped = await mapWithConcurrency([30, 10, 20, 5, 15], 2, async (ms, i) => {
+    peak = Math.max(peak, ++inFlight);
+    await new Promise((resolve) => setTimeout(resolve, ms));
+    inFlight--;
+    return i;
+  });
+  assert(mapped.join() === '0,1,2,3,4', 'Results keep input order');
+  assert(peak === 2, 'Concurrency limit is respected');
+
+  registry.register({ name: 'test_read', description: 'r', input_schema: { type: 'object', properties: {} } }, async () => ({ success: true }), { readOnly: true });
+  registry.register({ name: 'test_write', description: 'w', input_schema: { type: 'object', properties: {} } }, async () => ({ success: true }));
+  const call = (id: string, toolName: string) => ({ type: 'tool_use' as const, id, name: toolName, input: {} });
+  const batches = batchToolCalls([
+    call('1', 'test_read'), call('2', 'test_read'), call('3', 'test_write'), call('4', 'test_write'), call('5', 'test_read'),
+  ]);
+  assert(batches.map((b) => b.map((tu) => tu.id).join('+')).join(' | ') === '1+2 | 3 | 4 | 5', 'Read-only calls batch together, mutating calls run alone');
+  assert(!registry.isReadOnly('code_write_file') && !registry.isReadOnly('no_such_tool'), 'Unflagged and unknown tools count as mutating');
+
+  // ── Test: Conversation Compaction ───────────────────────────────────
+  console.log('\x1b[33mConversation Compaction:\x1b[0m');
+  const { estimateTokens, compactMessages } = await import('../agents/compaction.js');
+  type Msg = import('../types/index.js').Message;
+  const bigResult = 'x'.repeat(8000);
+  const round = (id: string): Msg[] => [
+    { role: 'assistant', content: [{ type: 'tool_use', id, name: 'code_read_file', input: { filePath: `${id}.ts` } }] },
+    { role: 'user', content: [{ type: 'tool_result', tool_use_id: id, content: bigResult }] },
+  ];
+  const agentLoop: Msg[] = [{ role: 'user', content: 'Refactor the parser' }, ...round('a'), ...round('b'), ...round('c')];
+  assert(estimateTokens(agentLoop) > 6000 && estimateTokens(agentLoop) < 6100, 'Estimates ~4 characters per token');
+
+  const untouched = await compactMessages(agentLoop, { maxTokens: 10000 });
+  assert(untouched.action === 'none' && untouched.messages === agentLoop, 'Leaves conversations under the limit alone');
+
+  const trimmedLoop = await compactMessages(agentLoop, { maxTokens: 3000 });
+  const lastResult = (trimmedLoop.messages[6]?.content as Array<{ content: string }>)[0]?.content;
+  const oldResult = (trimmedLoop.messages[2]?.content as Array<{ content: string }>)[0]?.content;
+  assert(trimmedLoop.action === 'trimmed' && lastResult === bigResult && oldResult?.includes('[trimmed') === true, 'Trims older tool results but keeps the latest');
+
+  let summarizedCount = 0;
+  const summarizedLoop = await compactMessages(agentLoop, {
+    maxTokens: 1000,
+    summarize: async (dropped) => { summarizedCount = dropped.length; return 'Read a.ts and b.ts'; },
+  });
+  const kept = summarizedLoop.messages;
+  assert(summarizedLoop.action === 'summarized' && summarizedCount === 4, 'Summarises older tool rounds');
+  assert(JSON.stringify(kept[0]?.content).includes('Refactor the parser') && JSON.stringify(kept[0]?.content).includes('Read a.ts and b.ts'), 'Keeps the current request and adds the summary to it');
+  assert(kept[1]?.role === 'assistant' && (kept[1]?.content as Array<{ id?: string }>)[0]?.id === 'c', 'Kept tool results still follow their tool_use');
+
+  const history: Msg[] = [
+    { role: 'user', content: 'first question ' + 'y'.repeat(4000) },
+    { role: 'assistant', content: 'first answer' },
+    { role: 'user', content: 'second question' },
+    { role: 'assistant', content: 'second answer' },
+    { role: 'user', content: 'third question' },
+  ];
+  const compactedHistory = await compactMessages(history, { maxTokens: 500 });
+  assert(compactedHistory.messages.length === 3 && JSON.stringify(compactedHistory.messages[0]?.content).startsWith('[{"type":"text","text":"second question"'), 'REPL history is cut at a user turn');
+
+  // ── Test: Cancellation & Timeouts ───────────────────────────────────
+  console.log('\x1b[33mCancellation & Timeouts:\x1b[0m');
+  const { AbortError } = await import('../utils/abort.js');
+  const errorName = async (fn: () => Promise<unknown>): Promise<string> => {
+    try {
+      await fn();
+      return 'resolved';
+    } catch (err) {
+      return (err as Error).name;
+    }
+  };
+
+  const retryAbort = new AbortController();
+  setTimeout(() => retryAbort.abort(new AbortError('stop')), 20);
+  const retryStarted = Date.now();
+  const retryOutcome = await errorName(() => withRetry(
+    async () => { throw new LLMAPIError(529, 'overloaded', 60_000); },
+    { maxRetries: 3, baseDelayMs: 60_000, maxDelayMs: 60_000 },
+    undefined,
+    retryAbort.signal
+  ));
+  assert(retryOutcome === 'AbortError' && Date.now() - retryStarted < 1000, 'Aborting cuts a retry wait short');
+  assert(!isRetryable(new AbortError()), 'Aborted calls are never retried');
+
+  registry.register(
+    { name: 'test_slow', description: 's', input_schema: { type: 'object', properties: {} } },
+    () => new Promise((resolve) => setTimeout(() => resolve({ success: true }), 5_000).unref())
+  );
+  const toolAbort = new AbortController();
+  setTimeout(() => toolAbort.abort(new AbortError()), 20);
+  assert(await errorName(() => registry.execute('test_slow', {}, { signal: toolAbort.signal })) === 'AbortError', 'registry.execute rejects when its signal aborts');
+
+  const hangingApi = http.createServer(() => { /* never responds */ });
+  await new Promise<void>((resolve) => hangingApi.listen(0, '127.0.0.1', resolve));
+  const savedLLMForTimeout = { ...config.llm };
+  Object.assign(config.llm, { provider: 'anthropic', baseUrl: `http://127.0.0.1:${(hangingApi.address() as { port: number }).port}`, stream: false });
+  const timeoutOutcome = await errorName(() => runAgent({ name: 'SlowAgent', systemPrompt: 'x', userMessage: 'hi', toolNames: [], timeoutMs: 100 }));
+  assert(timeoutOutcome === 'TimeoutError', 'runAgent stops with a TimeoutError after timeoutMs');
+  const cancelled = new AbortController();
+  setTimeout(() => cancelled.abort(new AbortError('Cancelled by user')), 50);
+  const cancelOutcome = await errorName(() => runAgent({ name: 'SlowAgent', systemPrompt: 'x', userMessage: 'hi', toolNames: [], signal: cancelled.signal }));
+  assert(cancelOutcome === 'AbortError', 'runAgent stops with an AbortError when cancelled mid-request');
+  Object.assign(config.llm, savedLLMForTimeout);
+  hangingApi.closeAllConnections();
+  await new Promise<void>((resolve) => hangingApi.close(() => resolve()));
+
+  // ── Test: Lifecycle Events & Hooks ──────────────────────────────────
+  console.log('\x1b[33mLifecycle Events & Hooks:\x1b[0m');
+  const { agentEvents } = await import('../agents/events.js');
+  const { attachShellHooks, matchesTool } = await import('../agents/observers.js');
+
+  // A fake Messages API: calls test_tool, then answers with the tool result it got
+  const echoApi = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', (c: Buffer) => { raw += c.toString(); });
+    req.on('end', () => {
+      const body = JSON.parse(raw) as { messages: Array<{ content: unknown }> };
+      const toolResult = body.messages.length > 1 ? JSON.stringify(body.messages[body.messages.length - 1]?.content) : '';
+      const content = toolResult
+        ? [{ type: 'text', text: toolResult }]
+        : [{ type: 'tool_use', id: 'toolu_ev', name: 'test_tool', input: { ping: true } }];
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({
+        id: 'msg_ev', type: 'message', role: 'assistant', content, model: 'claude-sonnet-4',
+        stop_reason: toolResult ? 'end_turn' : 'tool_use', usage: { input_tokens: 10, output_tokens: 5 },
+      }));
+    });
+  });
+  await new Promise<void>((resolve) => echoApi.listen(0, '127.0.0.1', resolve));
+  const savedLLMForEvents = { ...config.llm };
+  Object.assign(config.llm, { provider: 'anthropic', baseUrl: `http://127.0.0.1:${(echoApi.address() as { port: number }).port}`, stream: false });
+  const eventRun = { name: 'EventTest', systemPrompt: 'x', userMessage: 'ping', toolNames: ['test_tool'] };
+
+  const seen: string[] = [];
+  const names = ['run:start', 'llm:request', 'llm:response', 'tool:start', 'tool:end', 'run:end'] as const;
+  const offs = names.map((name) => agentEvents.on(name, () => seen.push(name)));
+  let blockedReason = '';
+  offs.push(agentEvents.on('tool:end', (e) => { blockedReason = e.blocked || ''; }));
+  await runAgent(eventRun);
+  assert(
+    seen.join() === 'run:start,llm:request,llm:response,tool:start,tool:end,llm:request,llm:response,run:end',
+    'Emits run, LLM and tool events in order'
+  );
+
+  const rewrite = agentEvents.beforeTool((c) => ({ input: { ...c.input, rewritten: true } }));
+  const rewritten = await runAgent(eventRun);
+  rewrite();
+  assert(rewritten.result.includes('rewritten'), 'beforeTool hooks can change tool input');
+
+  const veto = agentEvents.beforeTool((c) => (c.tool === 'test_tool' ? { block: 'pings are off' } : undefined));
+  seen.length = 0;
+  const vetoed = await runAgent(eventRun);
+  veto();
+  assert(vetoed.result.includes('Blocked by hook: pings are off') && !seen.includes('tool:start') && blockedReason === 'pings are off', 'beforeTool hooks can veto a call');
+
+  const broken = agentEvents.beforeTool(() => { throw new Error('guard crashed'); });
+  const failedClosed = await agentEvents.runBeforeTool({ runId: 'r', agent: 'a', tool: 'test_tool', input: {} });
+  broken();
+  assert(failedClosed.blocked?.includes('guard crashed') === true, 'A throwing hook blocks the call');
+
+  assert(matchesTool('code_write_file|code_git_*', 'code_git_status') && !matchesTool('code_git_*', 'code_read_file'), 'Hook patterns match tool names');
+  const detachHooks = attachShellHooks({ preTool: [{ match: 'test_*', command: 'echo "no pings today" >&2; exit 2' }] });
+  const shellVetoed = await runAgent(eventRun);
+  detachHooks();
+  assert(shellVetoed.result.includes('no pings today'), 'A preTool shell hook exiting 2 blocks the call');
+  const detachFailing = attachShellHooks({ preTool: [{ command: 'exit 1' }] });
+  const shellFailed = await agentEvents.runBeforeTool({ runId: 'r', agent: 'a', tool: 'test_tool', input: {} });
+  detachFailing();
+  assert(shellFailed.blocked?.includes('failed (exit 1)') === true, 'A preTool shell hook that fails blocks the call, like a throwing hook');
+
+  offs.forEach((off) => off());
+  Object.assign(config.llm, savedLLMForEvents);
+  await new Promise<void>((resolve) => echoApi.close(() => resolve()));
+
+  // ── Test: Stop Reasons ──────────────────────────────────────────────
+  console.log('\x1b[33mStop Reasons:\x1b[0m');
+  const { orchestrate } = await import('../agents/orchestrator.js');
+
+  // A fake Messages API that never stops calling tools until told it is out of iterations
+  const loopingApi = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', (c: Buffer) => { raw += c.toString(); });
+    req.on('end', () => {
+      const body = JSON.parse(raw) as { system: unknown; messages: Array<{ content: unknown }>; tools: Array<{ name: string }> };
+      const last = JSON.stringify(body.messages[body.messages.length - 1]?.content);
+      const tool = body.tools[0]?.name || 'test_tool';
+      let content: unknown[] = [{ type: 'tool_use', id: `toolu_${body.messages.length}`, name: tool, input: tool === 'delegate_to_agent' ? { agent: 'nobody', message: 'x' } : {} }];
+      let stopReason = 'tool_use';
+      if (last.includes('limit of')) {
+        content = [{ type: 'text', text: 'Partial: read the file, tests still to write' }];
+        stopReason = 'end_turn';
+      } else if (JSON.stringify(body.system).includes('TRUNCATE')) {
+        content = [{ type: 'text', text: 'The answer is' }];
+        stopReason = 'max_tokens';
+      }
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({
+        id: 'msg_loop', type: 'message', role: 'assistant', content, model: 'claude-sonnet-4',
+        stop_reason: stopReason, usage: { input_tokens: 10, output_tokens: 5 },
+      }));
+    });
+  });
+  await new Promise<void>((resolve) => loopingApi.listen(0, '127.0.0.1', resolve));
+  const savedLLMForStops = { ...config.llm };
+  Object.assign(config.llm, { provider: 'anthropic', baseUrl: `http://127.0.0.1:${(loopingApi.address() as { port: number }).port}`, stream: false });
+
+  const limited = await runAgent({ name: 'LoopAgent', systemPrompt: 'x', userMessage: 'go', toolNames: ['test_tool'], maxIterations: 2 });
+  const lastMessage = limited.messages[limited.messages.length - 1];
+  assert(limited.status === 'max_iterations' && limited.iterations === 2, 'runAgent reports max_iterations when the loop limit is hit');
+  assert(limited.result.startsWith('Partial:') && lastMessage?.role === 'assistant' && !JSON.stringify(lastMessage.content).includes('tool_use'), 'A summary turn is forced at the limit');
+
+  const truncated = await runAgent({ name: 'LoopAgent', systemPrompt: 'TRUNCATE', userMessage: 'go', toolNames: ['test_tool'] });
+  assert(truncated.status === 'max_tokens' && truncated.stopReason === 'max_tokens', 'A cut-off final answer reports max_tokens');
+
+  const orchestrated = await orchestrate('go', [], { maxLoops: 2 });
+  assert(orchestrated.status === 'max_iterations' && orchestrated.result.startsWith('Partial:'), 'The orchestrator loop limit is configurable and reported');
+
+  Object.assign(config.llm, savedLLMForStops);
+  await new Promise<void>((resolve) => loopingApi.close(() => resolve()));
+
+  // ── Test: Tool Selectors ────────────────────────────────────────────
+  console.log('\x1b[33mTool Selectors:\x1b[0m');
+  registry.registerAll(codeTools);
+  const codeNames = registry.names().filter((n) => n.startsWith('code_'));
+  assert(registry.resolve(['code_*']).join() === codeNames.join() && codeNames.length >= 8, 'Globs select every matching tool');
+  assert(registry.resolve(['code_*', '!code_write_file', '!code_run_command']).length === codeNames.length - 2, 'Exclusions remove tools from the selection');
+  assert(registry.resolve(['@code']).join() === codeNames.join(), 'Groups expand to their tools');
+  registry.defineGroup('probe', ['test_read', '@readonly']);
+  const probe = registry.resolve(['@probe', '!code_*']);
+  assert(probe.includes('test_read') && !probe.includes('test_write') && !probe.some((n) => n.startsWith('code_')), 'Custom groups can nest other groups');
+  assert(!registry.resolve(['!test_*']).some((n) => n.startsWith('test_')) && registry.resolve(['!test_*']).includes('code_read_file'), 'Only exclusions apply to every tool');
+  assert(registry.resolve(['nothing_*', 'test_tool']).join() === 'test_tool', 'Selectors that match nothing are skipped');
+  assert(registry.definitionsFor(['code_read_*']).map((d) => d.name).join() === 'code_read_file', 'definitionsFor resolves selectors');
+
+  // ── Test: Structured Output ─────────────────────────────────────────
+  console.log('\x1b[33mStructured Output:\x1b[0m');
+  const { validateSchema } = await import('../utils/schema.js');
+  const verdictSchema = {
+    type: 'object',
+    properties: {
+      verdict: { type: 'string', enum: ['PASS', 'FAIL'] },
+      issues: { type: 'array', items: { type: 'string' } },
+    },
+    required: ['verdict', 'issues'],
+    additionalProperties: false,
+  };
+  assert(validateSchema({ verdict: 'PASS', issues: [] }, verdictSchema).length === 0, 'Valid values pass the schema');
+  assert(
+    validateSchema({ verdict: 'MAYBE', issues: [1], extra: true }, verdictSchema).join('|') === '$.verdict: must be one of "PASS", "FAIL"|$.issues[0]: expected string, got integer|$.extra: unexpected property',
+    'Schema errors name the offending path'
+  );
+
+  const { toOpenAIToolChoice } = await import('../llm/openai.js');
+  const { toGeminiFunctionCalling } = await import('../llm/gemini.js');
+  assert(
+    JSON.stringify(toOpenAIToolChoice({ type: 'tool', name: 'submit_result' })) === '{"type":"function","function":{"name":"submit_result"}}'
+      && JSON.stringify(toGeminiFunctionCalling({ type: 'tool', name: 'submit_result' })) === '{"mode":"ANY","allowedFunctionNames":["submit_result"]}',
+    'Forced tool choice maps to OpenAI and Gemini'
+  );
+
+  // A fake Messages API: answers in prose, then with an invalid result, then a valid one
+  let forcedChoice = '';
+  let feedback = '';
+  const structuredApi = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', (c: Buffer) => { raw += c.toString(); });
+    req.on('end', () => {
+      const body = JSON.parse(raw) as { system: unknown; messages: Array<{ content: unknown }>; tool_choice?: { name?: string } };
+      const system = JSON.stringify(body.system);
+      if (body.tool_choice?.name) forcedChoice = body.tool_choice.name;
+      feedback = JSON.stringify(body.messages[body.messages.length - 1]?.content);
+      const submit = (input: unknown) => [{ type: 'tool_use', id: `toolu_${body.messages.length}`, name: 'submit_result', input }];
+      let content: unknown[];
+      const ping = (id: string) => ({ type: 'tool_use', id, name: 'test_tool', input: { ping: id } });
+      if (system.includes('LIST')) content = submit({ result: ['a', 'b'] });
+      else if (system.includes('MIXED')) content = [ping('toolu_a'), ...submit({ verdict: 'PASS', issues: [] }), ping('toolu_c')];
+      else if (system.includes('ALWAYS_INVALID')) content = submit({ verdict: 'MAYBE', issues: [] });
+      else if (body.messages.length === 1) content = [{ type: 'text', text: 'Looks good to me.' }];
+      else if (body.messages.length === 3) content = submit({ verdict: 'MAYBE', issues: [] });
+      else content = submit({ verdict: 'PASS', issues: [] });
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({
+        id: 'msg_structured', type: 'message', role: 'assistant', content, model: 'claude-sonnet-4',
+        stop_reason: content[0] && (content[0] as { type: string }).type === 'tool_use' ? 'tool_use' : 'end_turn',
+        usage: { input_tokens: 10, output_tokens: 5 },
+      }));
+    });
+  });
+  await new Promise<void>((resolve) => structuredApi.listen(0, '127.0.0.1', resolve));
+  const savedLLMForStructured = { ...config.llm };
+  Object.assign(config.llm, { provider: 'anthropic', baseUrl: `http://127.0.0.1:${(structuredApi.address() as { port: number }).port}`, stream: false });
+
+  const verified = await runAgent<{ verdict: string; issues: string[] }>({ name: 'Verifier', systemPrompt: 'verify', userMessage: 'check it', toolNames: [], outputSchema: verdictSchema });
+  assert(forcedChoice === 'submit_result', 'A prose answer makes the next turn force the output tool');
+  assert(feedback.includes('must be one of'), 'Validation errors are sent back to the model');
+  assert(verified.status === 'completed' && verified.output?.verdict === 'PASS' && Array.isArray(verified.output.issues), 'The validated object is returned as output');
+
+  const listed = await runAgent<string[]>({ name: 'Lister', systemPrompt: 'LIST', userMessage: 'list', toolNames: [], outputSchema: { type: 'array', items: { type: 'string' } } });
+  assert(listed.output?.join() === 'a,b', 'Non-object schemas are wrapped and unwrapped');
+
+  const mixed = await runAgent({ name: 'Mixed', systemPrompt: 'MIXED', userMessage: 'check', toolNames: ['test_tool'], outputSchema: verdictSchema });
+  const mixedResults = mixed.messages[mixed.messages.length - 1]?.content as Array<{ tool_use_id?: string }>;
+  assert(mixedResults.map((r) => r.tool_use_id).join() === 'toolu_a,toolu_1,toolu_c', 'Tool results keep the order of the calls around the output tool');
+
+  let exhausted = '';
+  try {
+    await runAgent({ name: 'Stubborn', systemPrompt: 'ALWAYS_INVALID', userMessage: 'check', toolNames: [], outputSchema: verdictSchema, outputRetries: 1 });
+  } catch (err) {
+    exhausted = (err as Error).name;
+  }
+  assert(exhausted === 'SchemaValidationError', 'Fails with SchemaValidationError once retries run out');
+
+  Object.assign(config.llm, savedLLMForStructured);
+  await new Promise<void>((resolve) => structuredApi.close(() => resolve()));
+
+  // ── Test: Tool Approvals ────────────────────────────────────────────
+  console.log('\x1b[33mTool Approvals:\x1b[0m');
+  const { approvals } = await import('../tools/approvals.js');
+  registry.register(
+    { name: 'test_danger', description: 'd', input_schema: { type: 'object', properties: {} } },
+    async (input: unknown) => ({ success: true, data: input }),
+    { destructive: true }
+  );
+  assert(
+    registry.risk('test_read') === 'read' && registry.risk('test_tool') === 'write' && registry.risk('test_danger') === 'destructive' && registry.risk('code_run_command') === 'destructive',
+    'Tools are classified as read, write or destructive'
+  );
+  const commandRisk = (command: string) => registry.risk('code_run_command', { command });
+  assert(
+    commandRisk('npm test') === 'read' && commandRisk('npx tsc --noEmit') === 'read' && commandRisk('git diff HEAD~1') === 'read' &&
+      commandRisk('git push') === 'destructive' && commandRisk('npm test && git push') === 'destructive' && commandRisk('npx eslint --fix src') === 'destructive',
+    'Test and inspection commands need no approval; other commands are destructive'
+  );
+
+  approvals.configure('writes');
+  assert(await errorName(() => registry.execute('test_tool', {})) === 'resolved', '"writes" policy runs writes');
+  assert(await errorName(() => registry.execute('test_danger', {})) === 'ToolDeniedError', '"writes" policy denies destructive calls');
+  const forcePush = { tool: 'code_run_command', input: { command: 'git push -f' }, risk: commandRisk('git push -f') };
+  assert(await errorName(() => approvals.check(forcePush)) === 'ToolDeniedError', '"writes" policy denies state-changing shell commands');
+  approvals.configure('deny');
+  assert(await errorName(() => registry.execute('test_tool', {})) === 'ToolDeniedError' && await errorName(() => registry.execute('test_read', {})) === 'resolved', '"deny" policy denies every mutating call but not reads');
+
+  let prompts = 0;
+  let openPrompts = 0;
+  let peakPrompts = 0;
+  approvals.configure('prompt', async (req) => {
+    prompts++;
+    peakPrompts = Math.max(peakPrompts, ++openPrompts);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    openPrompts--;
+    if (req.input.deny) return { action: 'deny', reason: 'not today' };
+    if (req.input.edit) return { action: 'allow', input: { edited: true } };
+    return { action: 'allow', remember: req.input.always === true };
+  });
+  const edited = await registry.execute('test_danger', { edit: true }) as { data: { edited?: boolean } };
+  assert(edited.data.edited === true, 'The user can edit a call before approving it');
+  let deniedMessage = '';
+  try {
+    await registry.execute('test_danger', { deny: true }, { agent: 'CodeWriter' });
+  } catch (err) {
+    deniedMessage = (err as Error).message;
+  }
+  assert(deniedMessage.includes('not today'), 'A denial reason is passed back');
+  prompts = 0;
+  await Promise.all([registry.execute('test_danger', { always: true }), registry.execute('test_danger', {}), registry.execute('test_danger', {})]);
+  assert(prompts === 1 && peakPrompts === 1, 'Prompts are serialised and "always" is remembered for the session');
+  assert(approvals.rememberedTools.join() === 'test_danger', 'Remembered tools are listed');
+  approvals.reset();
+  approvals.configure('writes');
+
+  // ── Test: Dry Run ───────────────────────────────────────────────────
+  console.log('\x1b[33mDry Run:\x1b[0m');
+  const { dryRun } = await import('../utils/dry-run.js');
+  registry.registerAll(jiraTools);
+  registry.registerAll(confluenceTools);
+  registry.registerAll(bitbucketTools);
+  const dryDir = fs.mkdtempSync(nodePath.join(os.tmpdir(), 'devweaver-dryrun-'));
+  const dryFile = nodePath.join(dryDir, 'feature.ts');
+  approvals.configure('allow');
+  dryRun.enable();
+  try {
+    const story = await registry.execute('jira_create_issue', { summary: 'Password reset', issueType: 'Story' }) as { key?: string; dryRun?: boolean };
+    assert(story.dryRun === true && story.key === 'DRYRUN-1', 'Creating an issue returns a simulated key');
+    await registry.execute('jira_add_subtask', { parentKey: String(story.key), summary: 'Reset email' });
+    await registry.execute('jira_transition_issue', { issueKey: String(story.key), transitionName: 'In Progress' });
+    await registry.execute('confluence_delete_page', { pageId: '123' });
+    await registry.execute('bitbucket_create_pr', { title: 'Password reset', sourceBranch: 'feature/reset' });
+    await registry.execute('code_write_file', { filePath: dryFile, content: 'export {};\n' });
+    const command = await registry.execute('code_run_command', { command: 'git commit -am wip' }) as { dryRun?: boolean };
+    assert(!fs.existsSync(dryFile), 'code_write_file does not write in a dry run');
+    assert(command.dryRun === true, 'State-changing commands are recorded, not run');
+    const planned = dryRun.planned;
+    assert(
+      planned.map((c) => c.system).join() === 'jira,jira,jira,confluence,bitbucket,code,code',
+      'Every mutating call is recorded in order'
+    );
+    assert(planned[0]?.request?.method === 'POST' && planned[1]?.target.includes('under DRYRUN-1') === true, 'Changes record the request they would send');
+    const plan = dryRun.formatPlan();
+    assert(plan.includes('7 change(s)') && plan.includes('Bitbucket:') && plan.includes('Create file'), 'The change plan is grouped by system');
+    dryRun.reset();
+    assert(dryRun.formatPlan().includes('no changes'), 'reset() clears the plan');
+    const nextStory = await registry.execute('jira_create_issue', { summary: 'Audit log', issueType: 'Story' }) as { key?: string };
+    assert(nextStory.key !== undefined && nextStory.key !== story.key, 'Placeholder ids stay unique after reset()');
+    const chained = await registry.execute('code_run_command', { command: `ls && touch ${dryFile}` }) as { dryRun?: boolean };
+    assert(chained.dryRun === true && !fs.existsSync(dryFile), 'Chained commands are recorded, not run, even when they start with a read-only command');
+  } finally {
+    dryRun.disable();
+    dryRun.reset();
+    approvals.configure('writes');
+    fs.rmSync(dryDir, { recursive: true, force: true });
+  }
+
+  // ── Test: Parallel Delegation ───────────────────────────────────────
+  console.log('\x1b[33mParallel Delegation:\x1b[0m');
+  const routerApi = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', (c: Buffer) => { raw += c.toString(); });
+    req.on('end', () => {
+      const body = JSON.parse(raw) as { messages: Array<{ content: unknown }> };
+      const content = body.messages.length === 1
+        ? ['test_slow_a', 'test_slow_b', 'test_broken', 'test_slow_c'].map((agent, i) => ({ type: 'tool_use', id: `toolu_d${i}`, name: 'delegate_to_agent', input: { agent, message: 'work' } }))
+        : [{ type: 'text', text: 'All done' }];
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({
+        id: 'msg_route', type: 'message', role: 'assistant', content, model: 'claude-sonnet-4',
+        stop_reason: body.messages.length === 1 ? 'tool_use' : 'end_turn', usage: { input_tokens: 10, output_tokens: 5 },
+      }));
+    });
+  });
+  await new Promise<void>((resolve) => routerApi.listen(0, '127.0.0.1', resolve));
+  const savedLLMForRouting = { ...config.llm };
+  Object.assign(config.llm, { provider: 'anthropic', baseUrl: `http://127.0.0.1:${(routerApi.address() as { port: number }).port}`, stream: false });
+
+  let runningAgents = 0;
+  let peakAgents = 0;
+  const slowAgent = (name: string) => ({
+    description: 'test',
+    triggers: [],
+    fn: async () => {
+      peakAgents = Math.max(peakAgents, ++runningAgents);
+      await new Promise((resolve) => setTimeout(resolve, 30));
+      runningAgents--;
+      return { result: `${name} ok`, status: 'completed' as const, stopReason: 'end_turn', iterations: 1, toolCalls: [], messages: [], usage: emptyUsage() };
+    },
+  });
+  Object.assign(SUB_AGENTS, {
+    test_slow_a: slowAgent('a'),
+    test_slow_b: slowAgent('b'),
+    test_slow_c: slowAgent('c'),
+    test_broken: { description: 'test', triggers: [], fn: async () => { throw new Error('boom'); } },
+  });
+  try {
+    const routed = await orchestrate('do four things', [], { delegationConcurrency: 2 });
+    assert(peakAgents === 2, 'Delegations from one turn run concurrently up to the limit');
+    assert(routed.delegations.map((d) => d.agent).join() === 'test_slow_a,test_slow_b,test_broken,test_slow_c', 'Delegations are reported in call order');
+    assert(routed.delegations[2]?.status === 'error' && routed.delegations[3]?.result === 'c ok', 'A failing sub-agent does not stop the others');
+    const delegationResults = JSON.stringify(routed.conversationHistory[2]?.content);
+    assert(routed.result === 'All done' && delegationResults.includes('Error from test_broken: boom') && delegationResults.includes('b ok'), 'Each delegation gets its own tool_result');
+  } finally {
+    for (const key of ['test_slow_a', 'test_slow_b', 'test_slow_c', 'test_broken']) delete SUB_AGENTS[key];
+    Object.assign(config.llm, savedLLMForRouting);
+    await new Promise<void>((resolve) => routerApi.close(() => resolve()));
+  }
+
+  // ── Test: Workflows ─────────────────────────────────────────────────
+  console.log('\x1b[33mWorkflows:\x1b[0m');
+  const { runWorkflow, resumeWorkflow, validateWorkflow, readWorkflowRun, listWorkflowRuns } = await import('../agents/workflow.js');
+  const workflowDir = fs.mkdtempSync(nodePath.join(os.tmpdir(), 'devweaver-workflow-'));
+  process.chdir(workflowDir);
+  const agentCalls: string[] = [];
+  let reviewAttempts = 0;
+  let limitedRuns = 0;
+  const testAgent = (fn: (message: string) => string) => ({
+    description: 'test',
+    triggers: [],
+    fn: async ({ message }: { message: string }) => {
+      agentCalls.push(message);
+      return { result: fn(message), status: 'completed' as const, stopReason: 'end_turn', iterations: 1, toolCalls: [], messages: [], usage: emptyUsage() };
+    },
+  });
+  Object.assign(SUB_AGENTS, {
+    test_wf_echo: testAgent((m) => `did: ${m}`),
+    test_wf_review: testAgent(() => {
+      if (++reviewAttempts === 1) throw new Error('review service down');
+      return 'Approved';
+    }),
+    test_wf_limited: {
+      ...testAgent(() => ''),
+      fn: async () => {
+        const first = limitedRuns++ === 0;
+        return { result: first ? 'half a draft' : 'full draft', status: first ? 'max_iterations' as const : 'completed' as const, stopReason: 'end_turn', iterations: 1, toolCalls: [], messages: [], usage: emptyUsage() };
+      },
+    },
+  });
+  fs.mkdirSync('.planning');
+  fs.writeFileSync('.planning/config.json', JSON.stringify({
+    workflows: {
+      ship: {
+        steps: [
+          { id: 'analyse', agent: 'test_wf_echo', input: 'Analyse {{input}}' },
+          { id: 'review', agent: 'test_wf_review', input: 'Review {{ steps.analyse.output }}' },
+          { id: 'docs', agent: 'test_wf_echo', input: 'Document ({{steps.review.status}})', when: { step: 'review', contains: 'approved' } },
+          { id: 'fix', agent: 'test_wf_echo', input: 'Fix it', when: { step: 'review', notContains: 'approved' } },
+        ],
+      },
+      partial: {
+        steps: [
+          { id: 'draft', agent: 'test_wf_limited', input: 'Draft' },
+          { id: 'publish', agent: 'test_wf_echo', input: 'Publish {{steps.draft.output}}' },
+        ],
+      },
+    },
+  }));
+  try {
+    assert(
+      validateWorkflow({ steps: [{ id: 'a', agent: 'test_wf_echo', input: '{{steps.b.output}}' }, { id: 'b', agent: 'nobody', input: 'x' }] }).length === 2,
+      'Forward references and unknown agents are rejected'
+    );
+    const failedRun = await runWorkflow('ship', 'login');
+    assert(failedRun.status === 'failed' && failedRun.failedStep === 'review', 'A failing step stops the workflow');
+    const checkpoint = readWorkflowRun(failedRun.id);
+    assert(checkpoint.steps.analyse?.output === 'did: Analyse login' && checkpoint.steps.review?.status === 'error', 'Each step is checkpointed to disk');
+    assert(agentCalls[1] === 'Review did: Analyse login', 'Input templates reference earlier step outputs');
+
+    const resumed = await resumeWorkflow(failedRun.id);
+    assert(resumed.status === 'completed' && agentCalls.filter((m) => m.startsWith('Analyse')).length === 1, 'Resuming starts from the failed step');
+    assert(resumed.steps.docs?.message === 'Document (completed)' && resumed.steps.fix?.status === 'skipped', 'Conditions decide which steps run');
+    assert(listWorkflowRuns()[0]?.status === 'completed', 'Runs are listed with their status');
+
+    const cutShort = await runWorkflow('partial', 'notes');
+    assert(cutShort.status === 'failed' && cutShort.failedStep === 'draft' && cutShort.steps.publish?.status === 'pending', 'A step that stops at a limit does not feed later steps');
+    const redone = await resumeWorkflow(cutShort.id);
+    assert(redone.status === 'completed' && limitedRuns === 2 && redone.steps.publish?.message === 'Publish full draft', 'Resuming re-runs a step that stopped at a limit');
+  } finally {
+    for (const key of ['test_wf_echo', 'test_wf_review', 'test_wf_limited']) delete SUB_AGENTS[key];
+    process.chdir(originalCwd);
+    fs.rmSync(workflowDir, { recursive: true, force: true });
+  }
+
+  // ── Test: Sessions ──────────────────────────────────────────────────
+  console.log('\x1b[33mSessions:\x1b[0m');
+  const { sessions, sessionToMarkdown, exportSession } = await import('../agents/sessions.js');
+  const sessionDir = fs.mkdtempSync(nodePath.join(os.tmpdir(), 'devweaver-sessions-'));
+  const savedSessionsDir = config.sessions.directory;
+  config.sessions.directory = sessionDir;
+  try {
+    sessions.reset();
+    sessions.rename('auth work');
+    assert(sessions.list().length === 0, 'Empty sessions are not saved');
+
+    sessions.beginTurn('Review auth.ts and update the docs');
+    assert(sessions.list()[0]?.title === 'Review auth.ts and update the docs', 'A turn is saved as soon as it starts');
+    agentEvents.emit('delegation:start', { agent: 'code_review', message: 'Review auth.ts' });
+    agentEvents.emit('tool:end', { runId: 'r1', agent: 'CodeReview', toolUseId: 't1', tool: 'code_read_file', input: { filePath: 'auth.ts' }, durationMs: 5, output: { content: 'x' } });
+    agentEvents.emit('delegation:end', { agent: 'code_review', status: 'completed', durationMs: 1200, result: 'Two issues found' });
+    const history = [{ role: 'user' as const, content: 'Review auth.ts' }, { role: 'assistant' as const, content: 'Done' }];
+    sessions.endTurn({ result: 'Reviewed: two issues', status: 'completed', usage: emptyUsage(), messages: history });
+
+    const reloaded = sessions.find('auth work');
+    assert(reloaded?.messages.length === 2 && reloaded.turns[0]?.result === 'Reviewed: two issues', 'Sessions persist the conversation and can be found by name');
+    assert(reloaded?.turns[0]?.delegations[0]?.result === 'Two issues found' && reloaded.turns[0].toolCalls[0]?.tool === 'code_read_file', 'Delegations and tool calls are recorded per turn');
+    assert(sessions.find(reloaded?.id.slice(0, 12) || '')?.id === reloaded?.id, 'Sessions can be found by id prefix');
+    fs.writeFileSync(nodePath.join(sessionDir, 'half-written.json'), '{"id": "s-');
+    assert(sessions.list().length === 1 && sessions.find('auth work')?.id === reloaded?.id, 'Unreadable session files are skipped');
+
+    sessions.reset();
+    sessions.resume(reloaded as NonNullable<typeof reloaded>);
+    sessions.beginTurn('And the tests?');
+    sessions.failTurn('error', 'LLM unavailable');
+    assert(sessions.find('auth work')?.turns.length === 2, 'Resumed sessions keep appending turns');
+
+    const markdown = sessionToMarkdown(sessions.current);
+    assert(
+      markdown.includes('## Turn 1') && markdown.includes('**code_review** (completed, 1.2s)') && markdown.includes('`code_read_file` by CodeReview') && markdown.includes('_Failed: LLM unavailable_'),
+      'Markdown export renders turns, delegations, tool calls and failures'
+    );
+    const exported = exportSession(sessions.current, nodePath.join(sessionDir, 'out', 'auth.md'));
+    assert(fs.readFileSync(exported, 'utf-8') === markdown, 'Transcripts are exported to a file');
+  } finally {
+    sessions.reset();
+    config.sessions.directory = savedSessionsDir;
+    fs.rmSync(sessionDir, { recursive: true, force: true });
+  }
+
+  // ── Test: Custom Agents ─────────────────────────────────────────────
+  console.log('\x1b[33mCustom Agents:\x1b[0m');
+  const { parseFrontmatter, loadCustomAgents } = await import('../agents/custom-agents.js');
+  const parsedFrontmatter = parseFrontmatter('---\ndescription: "Checks: contracts"\ntriggers: [api contract, openapi]\ntools:\n  - code_*\n  - "!code_write_file"\nmaxIterations: 4\n---\nYou check API contracts.\n');
+  assert(
+    parsedFrontmatter.data.description === 'Checks: contracts' && JSON.stringify(parsedFrontmatter.data.triggers) === '["api contract","openapi"]' &&
+      JSON.stringify(parsedFrontmatter.data.tools) === '["code_*","!code_write_file"]' && parsedFrontmatter.data.maxIterations === 4 && parsedFrontmatter.body === 'You check API contracts.',
+    'Frontmatter supports scalars, inline lists and block lists'
+  );
+
+  const agentsDir = fs.mkdtempSync(nodePath.join(os.tmpdir(), 'devweaver-agents-'));
+  fs.writeFileSync(nodePath.join(agentsDir, 'migration-reviewer.md'), '---\ndescription: Reviews database migrations\ntriggers: [migration, schema change]\ntools: [code_read_file]\nmaxIterations: 3\n---\nYou are the Migration Reviewer.\n');
+  fs.writeFileSync(nodePath.join(agentsDir, 'no-description.md'), '---\ntriggers: [x]\n---\nPrompt\n');
+  fs.writeFileSync(nodePath.join(agentsDir, 'code-review.md'), '---\ndescription: Replaces a built-in\n---\nPrompt\n');
+  const builtinReview = SUB_AGENTS.code_review;
+  const customApiBodies: Array<{ system?: unknown; tools?: Array<{ name: string; input_schema: { properties: Record<string, { enum?: string[] }> } }> }> = [];
+  const customApi = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', (c: Buffer) => { raw += c.toString(); });
+    req.on('end', () => {
+      const body = JSON.parse(raw) as { system?: unknown; messages: unknown[]; tools?: [] };
+      customApiBodies.push(body);
+      const delegate = JSON.stringify(body.system).includes('DEVWEAVER') && body.messages.length === 1;
+      const content = delegate
+        ? [{ type: 'tool_use', id: 'toolu_c1', name: 'delegate_to_agent', input: { agent: 'migration_reviewer', message: 'Review 004_users.sql' } }]
+        : [{ type: 'text', text: 'Migration looks safe' }];
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({
+        id: 'msg_custom', type: 'message', role: 'assistant', content, model: 'claude-sonnet-4',
+        stop_reason: delegate ? 'tool_use' : 'end_turn', usage: { input_tokens: 10, output_tokens: 5 },
+      }));
+    });
+  });
+  await new Promise<void>((resolve) => customApi.listen(0, '127.0.0.1', resolve));
+  const savedLLMForCustom = { ...config.llm };
+  Object.assign(config.llm, { provider: 'anthropic', baseUrl: `http://127.0.0.1:${(customApi.address() as { port: number }).port}`, stream: false });
+  try {
+    const loadedAgents = loadCustomAgents(agentsDir);
+    assert(loadedAgents.join() === 'migration_reviewer' && SUB_AGENTS.migration_reviewer?.source?.endsWith('migration-reviewer.md') === true, 'Agent files are registered under their file name');
+    assert(SUB_AGENTS.code_review === builtinReview && !SUB_AGENTS.no_description, 'Invalid files and built-in names are skipped');
+    assert((quickRoute as (msg: string) => string)('check this schema change migration') === 'migration_reviewer', 'quickRoute uses custom triggers');
+
+    const customRun = await orchestrate('Review the new migration', []);
+    const orchestratorCall = customApiBodies[0];
+    const subAgentCall = customApiBodies[1];
+    assert(
+      JSON.stringify(orchestratorCall?.system).includes('migration_reviewer: Reviews database migrations') &&
+        orchestratorCall?.tools?.[0]?.input_schema.properties.agent?.enum?.includes('migration_reviewer') === true,
+      'Custom agents are listed in the orchestrator prompt and delegation enum'
+    );
+    assert(
+      JSON.stringify(subAgentCall?.system).includes('You are the Migration Reviewer.') && subAgentCall?.tools?.map((t) => t.name).join() === 'code_read_file',
+      'The file body is the system prompt and tools are limited to the selectors'
+    );
+    assert(customRun.delegations[0]?.result === 'Migration looks safe', 'Delegating to a custom agent runs it');
+  } finally {
+    delete SUB_AGENTS.migration_reviewer;
+    Object.assign(config.llm, savedLLMForCustom);
+    await new Promise<void>((resolve) => customApi.close(() => resolve()));
+    fs.rmSync(agentsDir, { recursive: true, force: true });
+  }
+
+  // ── Test: Phase Plans ───────────────────────────────────────────────
+  console.log('\x1b[33mPhase Plans:\x1b[0m');
+  const { parsePhasePlan, formatPlanTask } = await import('../utils/plan.js');
+  const { buildTaskContext } = await import('../agents/context-manager.js');
+  const planXml = `<phase number="2" name="Auth">
+  <overview>Add login</overview>
+  <tasks>
+    <task id="1" name="Session store">
+      <description>Store sessions in Redis</description>
+      <steps><step>Add the client</step></steps>
+      <verification><step>npm test</step></verification>
+      <acceptance>Sessions survive restarts</acceptance>
+    </task>
+    <task id="2" name="Login endpoint">
+      <description>
+        POST /login checks the password
+        and sets a cookie.
+      </description>
+      <files>
+        <file action="create">src/routes/login.ts</file>
+      </files>
+      <steps>
+        <step>Add the route</step>
+        <step>Hash with bcrypt</step>
+      </steps>
+      <verification>
+        <command><![CDATA[npm test -- login && curl -s localhost/login]]></command>
+        <expected>200 &amp; a Set-Cookie header</expected>
+      </verification>
+      <acceptance>
+        <item>Wrong passwords get 401</item>
+        <item>Cookies are HttpOnly</item>
+      </acceptance>
+    </task>
+  </tasks>
+  <phase-verification><step>Log in from the UI</step></phase-verification>
+</phase>`;
+  const phasePlan = parsePhasePlan(`# Phase 2 Plan\n\n\`\`\`xml\n${planXml}\n\`\`\`\n`);
+  const loginTask = phasePlan.tasks[1];
+  assert(phasePlan.number === 2 && phasePlan.name === 'Auth' && phasePlan.tasks.length === 2 && phasePlan.verification[0] === 'Log in from the UI', 'PLAN.md phases are parsed with their tasks');
+  assert(
+    loginTask?.description === 'POST /login checks the password\nand sets a cookie.' && loginTask.files[0]?.action === 'create' && loginTask.steps.length === 2,
+    'Tasks keep their description, files and steps'
+  );
+  assert(
+    loginTask?.verification[0] === 'npm test -- login && curl -s localhost/login' && loginTask.expected[0] === '200 & a Set-Cookie header' && loginTask.acceptance.length === 2,
+    'Verification commands, expectations and acceptance criteria are extracted'
+  );
+  assert(formatPlanTask(loginTask as NonNullable<typeof loginTask>).includes('### Acceptance criteria\n- Wrong passwords get 401'), 'Tasks render as Markdown');
+  assert(await errorName(async () => parsePhasePlan('# Just notes')) === 'Error', 'Plans without a <phase> are rejected');
+
+  const planProjectDir = fs.mkdtempSync(nodePath.join(os.tmpdir(), 'devweaver-plan-'));
+  process.chdir(planProjectDir);
+  try {
+    fs.mkdirSync('.planning/phase-2', { recursive: true });
+    fs.writeFileSync('.planning/phase-2/PLAN.md', planXml);
+    fs.writeFileSync('.planning/PROJECT.md', '# Shop\n\n## Vision\nSell things\n\n---\n*Generated by DEVWEAVER on 2026-01-01*\n');
+    fs.writeFileSync('.planning/STATE.md', '# Project State\n\nTask 1 done');
+    const taskContext = buildTaskContext(2, 2, 'Use the existing User model');
+    assert(
+      taskContext.includes('## Task 2: Login endpoint (phase 2)') && taskContext.includes('Hash with bcrypt') && !taskContext.includes('Session store'),
+      'The executor context holds only the requested task'
+    );
+    assert(
+      taskContext.includes('Use the existing User model') && taskContext.includes('Sell things') && taskContext.includes('Task 1 done') && !taskContext.includes('Generated by'),
+      'Caller instructions and PROJECT/STATE excerpts are included'
+    );
+    assert(await errorName(async () => buildTaskContext(2, 9)) === 'Error', 'Unknown task ids are an error');
+    assert(buildTaskContext(3, 1, 'Free-text task').includes('Free-text task'), 'Phases without a PLAN.md fall back to the description');
+  } finally {
+    process.chdir(originalCwd);
+    fs.rmSync(planProjectDir, { recursive: true, force: true });
+  }
+
+  // ── Test: Phase Execution ───────────────────────────────────────────
+  console.log('\x1b[33mPhase Execution:\x1b[0m');
+  const { executePhase, readPhaseExecution } = await import('../agents/phase-executor.js');
+  const { dependencyErrors } = await import('../utils/plan.js');
+  const dagProjectDir = fs.mkdtempSync(nodePath.join(os.tmpdir(), 'devweaver-dag-'));
+  process.chdir(dagProjectDir);
+  try {
+    fs.mkdirSync('.planning/phase-1', { recursive: true });
+    fs.writeFileSync('.planning/phase-1/PLAN.md', `<phase number="1" name="Shop"><tasks>
+      <task id="1" name="Schema"><description>a</description></task>
+      <task id="2" name="API" depends="1"><description>b</description></task>
+      <task id="3" name="Styles"><description>c</description></task>
+      <task id="4" name="Client" depends="2, 3"><description>d</description></task>
+      <task id="5" name="Theme" depends="3"><description>e</description></task>
+    </tasks></phase>`);
+
+    const ran: string[] = [];
+    let inFlight = 0;
+    let peakTasks = 0;
+    const fakeExecutor = (failing: string[]) => async (task: { id: string }) => {
+      peakTasks = Math.max(peakTasks, ++inFlight);
+      ran.push(task.id);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      inFlight--;
+      if (failing.includes(task.id)) throw new Error(`task ${task.id} broke`);
+      return { result: `done ${task.id}`, status: 'completed' as const, stopReason: 'end_turn', iterations: 1, toolCalls: [], messages: [], usage: emptyUsage() };
+    };
+
+    const firstRun = await executePhase(1, { concurrency: 2, worktrees: false, runTask: fakeExecutor(['2']) });
+    assert(peakTasks === 2 && ran.indexOf('1') < ran.indexOf('2') && ran.indexOf('3') < ran.indexOf('5'), 'Ready tasks run in parallel, after their dependencies');
+    assert(
+      firstRun.status === 'failed' && firstRun.tasks['2']?.status === 'error' && firstRun.tasks['4']?.status === 'blocked' && firstRun.tasks['4']?.blockedBy === '2',
+      'A failed task blocks its dependents'
+    );
+    assert(firstRun.tasks['5']?.status === 'completed' && !ran.includes('4'), 'Independent branches keep running');
+    assert(readPhaseExecution(1)?.tasks['2']?.error === 'task 2 broke', 'Task status is written to EXECUTION.json');
+
+    ran.length = 0;
+    const resumed = await executePhase(1, { worktrees: false, runTask: fakeExecutor([]) });
+    assert(resumed.status === 'completed' && ran.join() === '2,4', 'Resuming runs only the tasks that did not complete');
+
+    fs.writeFileSync('.planning/phase-1/PLAN.md', `<phase><tasks>
+      <task id="1" name="A" depends="3"></task><task id="2" name="B" depends="1"></task><task id="3" name="C" depends="2,9"></task>
+    </tasks></phase>`);
+    const cycleErrors = dependencyErrors(parsePhasePlan(fs.readFileSync('.planning/phase-1/PLAN.md', 'utf-8')));
+    assert(cycleErrors.some((e) => e.includes('cycle')) && cycleErrors.some((e) => e.includes('unknown task "9"')), 'Dependency cycles and unknown ids are reported');
+    assert(await errorName(() => executePhase(1, { runTask: fakeExecutor([]) })) === 'PhaseExecutionError', 'Invalid plans are not executed');
+  } finally {
+    process.chdir(originalCwd);
+    fs.rmSync(dagProjectDir, { recursive: true, force: true });
+  }
+
+  // ── Test: Worktree Isolation ────────────────────────────────────────
+  console.log('\x1b[33mWorktree Isolation:\x1b[0m');
+  const { execFileSync } = await import('node:child_process');
+  const { activeRepoRoot } = await import('../utils/git.js');
+  const gitRepoDir = fs.realpathSync(fs.mkdtempSync(nodePath.join(os.tmpdir(), 'devweaver-git-')));
+  const runGit = (...args: string[]) => execFileSync('git', args, { cwd: gitRepoDir, encoding: 'utf-8', stdio: ['ignore', 'pipe', 'pipe'] }).trim();
+  const savedRepoPath = config.repo.localPath;
+  process.chdir(gitRepoDir);
+  config.repo.localPath = gitRepoDir;
+  try {
+    runGit('init', '-q', '-b', 'main');
+    runGit('config', 'user.email', 'test@example.com');
+    runGit('config', 'user.name', 'Test');
+    fs.writeFileSync('README.md', '# Shop\n');
+    runGit('add', '-A');
+    runGit('commit', '-q', '-m', 'init');
+    fs.mkdirSync('.planning/phase-1', { recursive: true });
+    fs.writeFileSync('.planning/STATE.md', '# Project State\n\n## Decisions\n\n*No decisions recorded yet*\n\n## Blockers\n\n*No blockers*\n\n## Notes\n\n*No notes*\n');
+    fs.writeFileSync('.planning/phase-1/PLAN.md', `<phase><tasks>
+      <task id="1" name="Models"></task><task id="2" name="Styles"></task>
+      <task id="3" name="Config A" depends="1"></task><task id="4" name="Config B" depends="2"></task>
+      <task id="5" name="Docs" depends="4"></task>
+    </tasks></phase>`);
+
+    const files: Record<string, [string, string, number]> = {
+      '1': ['models.ts', 'models', 0], '2': ['styles.css', 'styles', 0],
+      '3': ['config.json', 'A', 0], '4': ['config.json', 'B', 20], '5': ['docs.md', 'docs', 0],
+    };
+    const roots: string[] = [];
+    const writeInWorktree = async (task: { id: string }) => {
+      const [file, content, delay] = files[task.id] as [string, string, number];
+      roots.push(activeRepoRoot());
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      fs.writeFileSync(nodePath.join(activeRepoRoot(), file), content);
+      return { result: 'ok', status: 'completed' as const, stopReason: 'end_turn', iterations: 1, toolCalls: [], messages: [], usage: emptyUsage() };
+    };
+
+    const isolated = await executePhase(1, { concurrency: 2, worktrees: true, runTask: writeInWorktree });
+    assert(roots.length === 4 && new Set(roots).size === 4 && !roots.includes(gitRepoDir), 'Each executor works in its own worktree');
+    assert(
+      fs.readFileSync('models.ts', 'utf-8') === 'models' && fs.readFileSync('config.json', 'utf-8') === 'A' && runGit('log', '--oneline').includes('Merge phase 1 task 3: Config A'),
+      'Completed task branches are merged back'
+    );
+    assert(
+      isolated.tasks['4']?.status === 'conflict' && isolated.tasks['4']?.branch === 'devweaver/phase-1/task-4' && isolated.tasks['5']?.status === 'blocked',
+      'A merge conflict stops the task and blocks its dependents'
+    );
+    const stateAfterConflict = fs.readFileSync('.planning/STATE.md', 'utf-8');
+    assert(stateAfterConflict.includes('⚠ [Phase 1] Task 4 (Config B) could not be merged: conflicts in config.json') && !stateAfterConflict.includes('*No blockers*'), 'Conflicts are recorded as blockers in STATE.md');
+    assert(runGit('status', '--porcelain', '--untracked-files=no') === '' && runGit('worktree', 'list').split('\n').length === 1, 'Conflicts leave the main tree clean and no worktrees behind');
+
+    runGit('merge', '-q', '-X', 'theirs', '-m', 'Resolve config', 'devweaver/phase-1/task-4');
+    roots.length = 0;
+    const afterFix = await executePhase(1, { worktrees: true, runTask: writeInWorktree });
+    assert(afterFix.status === 'completed' && roots.length === 1 && fs.existsSync('docs.md'), 'A branch merged by hand counts as done on resume');
+    assert(runGit('branch', '--list', 'devweaver/*') === '', 'Merged task branches are deleted');
+  } finally {
+    process.chdir(originalCwd);
+    config.repo.localPath = savedRepoPath;
+    fs.rmSync(gitRepoDir, { recursive: true, force: true });
+  }
+
+  // ── Test: Verified Tasks ────────────────────────────────────────────
+  console.log('\x1b[33mVerified Tasks:\x1b[0m');
+  const { runVerifiedTask, readAttemptLog } = await import('../agents/task-runner.js');
+  const verifyProjectDir = fs.mkdtempSync(nodePath.join(os.tmpdir(), 'devweaver-verify-'));
+  process.chdir(verifyProjectDir);
+  try {
+    const agentRun = <T>(result: string, output?: T) => ({ result, output, status: 'completed' as const, stopReason: 'end_turn', iterations: 1, toolCalls: [], messages: [], usage: { ...emptyUsage(), inputTokens: 10 } });
+    const failVerdict = { verdict: 'FAIL' as const, summary: 'Login returns 500', evidence: ['npm test: 1 failing'], failures: ['Wrong passwords get 401'] };
+    const passVerdict = { verdict: 'PASS' as const, summary: 'All criteria met', evidence: ['npm test: 12 passing'], failures: [] };
+
+    const executorInputs: string[] = [];
+    const verdicts = [failVerdict, passVerdict];
+    const passedTask = await runVerifiedTask(2, 1, {
+      instructions: 'Use bcrypt',
+      execute: async (text) => { executorInputs.push(text); return agentRun(`attempt ${executorInputs.length}`); },
+      verify: async () => agentRun('verified', verdicts.shift()),
+    });
+    assert(passedTask.output?.verdict === 'PASS' && passedTask.result === 'attempt 2' && passedTask.usage.inputTokens === 40, 'A FAIL verdict re-runs the executor until the verifier passes');
+    assert(
+      executorInputs[0] === 'Use bcrypt' && executorInputs[1]?.includes('Login returns 500') === true && executorInputs[1].includes('- Wrong passwords get 401') && executorInputs[1].includes('- npm test: 1 failing'),
+      "The retry gets the verifier's evidence and unmet criteria"
+    );
+    const passLog = readAttemptLog(2, 1);
+    assert(
+      passLog.attempts.length === 2 && passLog.attempts[0]?.verdict?.verdict === 'FAIL' && passLog.attempts[1]?.feedback?.includes('Login returns 500') === true,
+      'Every attempt and verdict is kept under the phase directory'
+    );
+
+    let stubbornRuns = 0;
+    const giveUp = await errorName(() => runVerifiedTask(2, 3, {
+      maxAttempts: 2,
+      execute: async () => { stubbornRuns++; return agentRun('done'); },
+      verify: async () => agentRun('no verdict'),
+    }));
+    assert(giveUp === 'TaskVerificationError' && stubbornRuns === 2 && readAttemptLog(2, 3).attempts[1]?.verdict?.summary.includes('no verdict') === true, 'It gives up after the attempt limit; a missing verdict counts as FAIL');
+    assert(fs.readFileSync('.planning/STATE.md', 'utf-8').includes('[Phase 2] Task 3 failed verification after 2 attempt(s)'), 'Giving up records a blocker in STATE.md');
+
+    fs.mkdirSync('.planning/phase-4', { recursive: true });
+    fs.writeFileSync('.planning/phase-4/PLAN.md', '<phase><tasks><task id="1" name="Login"></task></tasks></phase>');
+    const cutShort = await executePhase(4, {
+      worktrees: false,
+      runTask: (task, phase, s) => runVerifiedTask(phase, task.id, {
+        signal: s,
+        execute: async () => ({ ...agentRun('ran out of turns'), status: 'max_iterations' as const }),
+        verify: async () => agentRun('verified', passVerdict),
+      }),
+    });
+    assert(cutShort.status === 'completed' && cutShort.tasks['1']?.status === 'completed' && cutShort.tasks['1']?.error === undefined, 'A task the verifier passes completes even if the executor stopped at a limit');
+  } finally {
+    process.chdir(originalCwd);
+    fs.rmSync(verifyProjectDir, { recursive: true, force: true });
+  }
+
   // ── Summary ─────────────────────────────────────────────────────────
   console.log(`\n${'─'.repeat(50)}`);
   console.log(`Results: ${passed} passed, ${failed} failed`);
@@ -0,0 +1,133 @@
+// ============================================================================
+// DEVWEAVER – Tool Approvals
+//
+// Human-in-the-loop gate for tools with side effects. The registry asks it
+// before running any tool that is not read-only. In the REPL the user
+// approves, edits or denies each call; a policy decides when nobody is
+// there to ask (single-command mode, CI).
+// ============================================================================
+
+import logger from '../utils/logger.js';
+import { raceAbort, throwIfAborted } from '../utils/abort.js';
+import type { ToolInput } from '../types/index.js';
+
+/** `read`: no side effects. `write`: creates or changes things. `destructive`: hard to undo. */
+export type ToolRisk = 'read' | 'write' | 'destructive';
+
+/**
+ * `prompt`: ask for every mutating call. `allow`: run everything.
+ * `writes`: run writes, deny destructive calls. `deny`: deny every mutating call.
+ */
+export type ApprovalPolicy = 'prompt' | 'allow' | 'writes' | 'deny';
+
+export const APPROVAL_POLICIES: ApprovalPolicy[] = ['prompt', 'allow', 'writes', 'deny'];
+
+export interface ApprovalRequest {
+  tool: string;
+  input: ToolInput;
+  risk: ToolRisk;
+  /** The agent making the call, when known. */
+  agent?: string;
+}
+
+export type ApprovalDecision =
+  | { action: 'allow'; input?: ToolInput; remember?: boolean }
+  | { action: 'deny'; reason?: string };
+
+/** Asks a person about one call; `signal` aborts when the run is cancelled. */
+export type ApprovalPrompter = (request: ApprovalRequest, signal?: AbortSignal) => Promise<ApprovalDecision>;
+
+/**
+ * Raised by the registry when a call is denied. The engine sends the
+ * message back to the model as the tool result.
+ */
+export class ToolDeniedError extends Error {
+  tool: string;
+
+  constructor(tool: string, reason: string) {
+    super(reason);
+    this.name = 'ToolDeniedError';
+    this.tool = tool;
+  }
+}
+
+class ApprovalGate {
+  private policy: ApprovalPolicy = 'writes';
+  private prompter: ApprovalPrompter | null = null;
+  private remembered = new Set<string>();
+  /** Prompts are shown one at a time, even when tool calls run concurrently. */
+  private queue: Promise<unknown> = Promise.resolve();
+  private warnedNoPrompter = false;
+
+  /**
+   * Set the policy and, for `prompt`, the function that asks the user.
+   */
+  configure(policy: ApprovalPolicy, prompter: ApprovalPrompter | null = null): void {
+    this.policy = policy;
+    this.prompter = prompter;
+  }
+
+  get currentPolicy(): ApprovalPolicy {
+    return this.policy;
+  }
+
+  /** Tools the user chose to always allow this session. */
+  get rememberedTools(): string[] {
+    return [...this.remembered];
+  }
+
+  /**
+   * Forget every "always allow" answer.
+   */
+  reset(): void {
+    this.remembered.clear();
+  }
+
+  /**
+   * Decide on a call. Resolves with the input to run it with (possibly
+   * edited by the user) or rejects with a ToolDeniedError.
+   */
+  async check(request: ApprovalRequest, signal?: AbortSignal): Promise<ToolInput> {
+    if (request.risk === 'read' || this.remembered.has(request.tool)) return request.input;
+
+    let policy = this.policy;
+    if (policy === 'prompt' && !this.prompter) {
+      if (!this.warnedNoPrompter) {
+        logger.warn('Tool approval policy is "prompt" but nobody can be asked; falling back to "writes"');
+        this.warnedNoPrompter = true;
+      }
+      policy = 'writes';
+    }
+
+    switch (policy) {
+      case 'allow':
+        return request.input;
+      case 'writes':
+        if (request.risk === 'write') return request.input;
+        throw new ToolDeniedError(request.tool, `${request.tool} is destructive and the approval policy only allows writes. Tell the user what you wanted to do instead.`);
+      case 'deny':
+        throw new ToolDeniedError(request.tool, `${request.tool} changes data and the approval policy denies all such calls. Tell the user what you wanted to do instead.`);
+      case 'prompt': {
+        const turn = this.queue.then(() => this.ask(request, signal));
+        this.queue = turn.catch(() => undefined);
+        return turn;
+      }
+    }
+  }
+
+  private async ask(request: ApprovalRequest, signal?: AbortSignal): Promise<ToolInput> {
+    // An earlier prompt in the queue may have said "always" for this tool
+    if (this.remembered.has(request.tool)) return request.input;
+    throwIfAborted(signal);
+
+    const decision = await raceAbort((this.prompter as ApprovalPrompter)(request, signal), signal);
+    if (decision.action === 'deny') {
+      throw new ToolDeniedError(request.tool, `The user denied ${request.tool}${decision.reason ? `: ${decision.reason}` : '.'}`);
+    }
+    if (decision.remember) this.remembered.add(request.tool);
+    return decision.input ?? request.input;
+  }
+}
+
+// Singleton
+export const approvals = new ApprovalGate();
@@ -4,6 +4,7 @@
 import { request } from '../utils/http.js';
 import config from '../config.js';
 import logger from '../utils/logger.js';
+import { dryRun } from '../utils/dry-run.js';
 import type { Tool } from '../types/index.js';
 
 function authHeaders(): Record<string, string> {
@@ -77,6 +78,15 @@ async function createPullRequest(input: {
   if (reviewers) {
     body.reviewers = reviewers.map((r) => ({ username: r }));
   }
+  if (dryRun.enabled) {
+    return dryRun.record({
+      system: 'bitbucket',
+      action: 'Open pull request',
+      target: `"${title}" (${sourceBranch} → ${destinationBranch || 'main'})`,
+      details: reviewers?.length ? `reviewers: ${reviewers.join(', ')}` : undefined,
+      request: { method: 'POST', url: repoUrl('pullrequests'), body },
+    }, { id: dryRun.nextId(), title });
+  }
   const res = await request(repoUrl('pullrequests'), { method: 'POST', headers: authHeaders(), body });
   if (res.status >= 300) throw new Error(`Bitbucket createPR error: ${JSON.stringify(res.data)}`);
   logger.success(`Created PR #${(res.data as { id: string }).id}: ${title}`);
@@ -110,6 +120,15 @@ async function addPRComment(input: {
     body.inline = { path: filePath } as Record<string, unknown>;
     if (lineNumber) (body.inline as Record<string, unknown>).to = lineNumber;
   }
+  if (dryRun.enabled) {
+    return dryRun.record({
+      system: 'bitbucket',
+      action: 'Comment on PR',
+      target: `#${prId}`,
+      details: filePath ? `inline on ${filePath}${lineNumber ? `:${lineNumber}` : ''}` : undefined,
+      request: { method: 'POST', url: repoUrl(`pullrequests/${prId}/comments`), body },
+    }, { id: dryRun.nextId() });
+  }
   const res = await request(repoUrl(`pullrequests/${prId}/comments`), {
     method: 'POST', headers: authHeaders(), body,
   });
@@ -120,6 +139,14 @@ async function addPRComment(input: {
 
 async function approvePR(input: { prId: string }): Promise<unknown> {
   const { prId } = input;
+  if (dryRun.enabled) {
+    return dryRun.record({
+      system: 'bitbucket',
+      action: 'Approve PR',
+      target: `#${prId}`,
+      request: { method: 'POST', url: repoUrl(`pullrequests/${prId}/approve`) },
+    }, { approved: true, prId });
+  }
   const res = await request(repoUrl(`pullrequests/${prId}/approve`), {
     method: 'POST', headers: authHeaders(),
   });
@@ -151,6 +178,7 @@ const bitbucketTools: Tool[] = [
         },
       },
     execute: getRepoInfo as any,
+    readOnly: true,
   },
     {
       name: 'bitbucket_list_branches',
@@ -160,6 +188,7 @@ const bitbucketTools: Tool[] = [
         properties: { maxResults: { type: 'number' } },
       },
     execute: listBranches as any,
+    readOnly: true,
   },
     {
       name: 'bitbucket_get_file',
@@ -173,6 +202,7 @@ const bitbucketTools: Tool[] = [
         required: ['filePath'],
       },
     execute: getFileContent as any,
+    readOnly: true,
   },
     {
       name: 'bitbucket_list_directory',
@@ -185,6 +215,7 @@ const bitbucketTools: Tool[] = [
         },
       },
     execute: getDirectoryListing as any,
+    readOnly: true,
   },
     {
       name: 'bitbucket_create_pr',
@@ -211,6 +242,7 @@ const bitbucketTools: Tool[] = [
         required: ['prId'],
       },
     execute: getPullRequest as any,
+    readOnly: true,
   },
     {
       name: 'bitbucket_get_pr_diff',
@@ -221,6 +253,7 @@ const bitbucketTools: Tool[] = [
         required: ['prId'],
       },
     execute: getPullRequestDiff as any,
+    readOnly: true,
   },
     {
       name: 'bitbucket_add_pr_comment',
@@ -246,6 +279,7 @@ const bitbucketTools: Tool[] = [
         required: ['prId'],
       },
     execute: approvePR as any,
+    destructive: true,
   },
     {
       name: 'bitbucket_get_commits',
@@ -258,6 +292,7 @@ const bitbucketTools: Tool[] = [
         },
       },
     execute: getCommits as any,
+    readOnly: true,
   },
 ];
 
@@ -4,15 +4,17 @@
 import fs from 'node:fs';
 import path from 'node:path';
 import { execSync } from 'node:child_process';
-import config from '../config.js';
+import { activeRepoRoot } from '../utils/git.js';
 import { walkDir, readFile, writeFile, buildTree, exists, ext } from '../utils/fs.js';
 import logger from '../utils/logger.js';
+import { dryRun } from '../utils/dry-run.js';
 import type { Tool } from '../types/index.js';
 
 // ── Handlers ────────────────────────────────────────────────────────────────
 
+/** The repo, or the executor's worktree when running in one. */
 function repoRoot(): string {
-  return config.repo.localPath;
+  return activeRepoRoot();
 }
 
 async function analyzeRepo(): Promise<unknown> {
@@ -82,6 +84,16 @@ async function readLocalFile(input: { filePath: string }): Promise<unknown> {
 async function writeLocalFile(input: { filePath: string; content: string }): Promise<unknown> {
   const { filePath, content } = input;
   const fullPath = path.isAbsolute(filePath) ? filePath : path.join(repoRoot(), filePath);
+  if (dryRun.enabled) {
+    const previous = readFile(fullPath);
+    const lines = content.split('\n').length;
+    return dryRun.record({
+      system: 'code',
+      action: previous === null ? 'Create file' : 'Overwrite file',
+      target: filePath,
+      details: previous === null ? `${lines} lines` : `${previous.split('\n').length} → ${lines} lines`,
+    }, { path: filePath, bytesWritten: Buffer.byteLength(content) });
+  }
   writeFile(fullPath, content);
   logger.success(`Wrote file: ${fullPath}`);
   return { path: filePath, bytesWritten: Buffer.byteLength(content) };
@@ -142,6 +154,28 @@ async function listDirectory(input: { dirPath?: string }): Promise<unknown> {
     }));
 }
 
+const READ_ONLY_COMMANDS = ['ls', 'cat', 'head', 'tail', 'wc', 'find', 'grep', 'tree'];
+
+/** Commands that inspect the repo or run its checks (tests, lint, type-check). */
+const CHECK_COMMANDS = [
+  /^git (status|diff|log|show)(\s|$)/,
+  /^npm (test|t|run (test|lint|typecheck|type-check|check)(:\S+)?)(\s|$)/,
+  /^(npx )?(tsc\b.*--noEmit|vitest run|jest|eslint)(\s|$)/,
+];
+
+/**
+ * Approval risk of a code_run_command call. Inspection and check commands
+ * are `read`, so verifiers can run the tests under any approval policy.
+ * Anything else, including anything using shell operators, can rewrite
+ * history, delete files or publish, so it is `destructive`.
+ */
+export function commandRisk(command: string): 'read' | 'destructive' {
+  const cmd = command.trim();
+  if (/[;&|`$<>()\n]/.test(cmd) || /\s(--fix|-delete|-exec|-execdir|-ok)(\s|$)/.test(cmd)) return 'destructive';
+  const first = cmd.split(/\s+/)[0] || '';
+  return READ_ONLY_COMMANDS.includes(first) || CHECK_COMMANDS.some((p) => p.test(cmd)) ? 'read' : 'destructive';
+}
+
 async function runCommand(input: { command: string; cwd?: string }): Promise<unknown> {
   const { command, cwd } = input;
   // Security: restrict to safe commands
@@ -150,6 +184,10 @@ async function runCommand(input: { command: string; cwd?: string }): Promise<unk
   if (!allowed.some((a) => cmd === a || cmd.endsWith(`/${a}`))) {
     throw new Error(`Command not allowed: ${cmd}. Allowed: ${allowed.join(', ')}`);
   }
+  // The whole string runs in a shell, so judge all of it, not just the first word
+  if (dryRun.enabled && commandRisk(command) !== 'read') {
+    return dryRun.record({ system: 'code', action: 'Run command', target: command, details: cwd ? `in ${cwd}` : undefined }, { command, output: '' });
+  }
 
   try {
     const output = execSync(command, {
@@ -201,6 +239,7 @@ const codeTools: Tool[] = [
       description: 'Analyze the local repository: file types, structure, frameworks, config files, coding patterns. Use this to understand the project before writing code or tests.',
       input_schema: { type: 'object', properties: {} },
     execute: analyzeRepo as any,
+    readOnly: true,
   },
     {
       name: 'code_read_file',
@@ -211,6 +250,7 @@ const codeTools: Tool[] = [
         required: ['filePath'],
       },
     execute: readLocalFile as any,
+    readOnly: true,
   },
     {
       name: 'code_write_file',
@@ -238,6 +278,7 @@ const codeTools: Tool[] = [
         required: ['pattern'],
       },
     execute: searchCode as any,
+    readOnly: true,
   },
     {
       name: 'code_list_directory',
@@ -247,6 +288,7 @@ const codeTools: Tool[] = [
         properties: { dirPath: { type: 'string' } },
       },
     execute: listDirectory as any,
+    readOnly: true,
   },
     {
       name: 'code_run_command',
@@ -260,6 +302,8 @@ const codeTools: Tool[] = [
         required: ['command'],
       },
     execute: runCommand as any,
+    destructive: true,
+    riskOf: (input) => commandRisk(String(input.command ?? '')),
   },
     {
       name: 'code_project_tree',
@@ -269,12 +313,14 @@ const codeTools: Tool[] = [
         properties: { maxDepth: { type: 'number' } },
       },
     execute: getProjectTree as any,
+    readOnly: true,
   },
     {
       name: 'code_git_status',
       description: 'Get git status, current branch, and recent commits.',
       input_schema: { type: 'object', properties: {} },
     execute: getGitStatus as any,
+    readOnly: true,
   },
     {
       name: 'code_git_diff',
@@ -287,6 +333,7 @@ const codeTools: Tool[] = [
         },
       },
     execute: getGitDiff as any,
+    readOnly: true,
   },
 ];
 
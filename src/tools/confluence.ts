@@ -4,6 +4,7 @@
 import { request } from '../utils/http.js';
 import config from '../config.js';
 import logger from '../utils/logger.js';
+import { dryRun } from '../utils/dry-run.js';
 import type { Tool } from '../types/index.js';
 
 function authHeaders(): Record<string, string> {
@@ -57,6 +58,15 @@ async function createPage(input: { title: string; body: string; spaceKey?: strin
   if (parentId) {
     payload.ancestors = [{ id: parentId }];
   }
+  if (dryRun.enabled) {
+    return dryRun.record({
+      system: 'confluence',
+      action: 'Create page',
+      target: `"${title}" in ${spaceKey || config.confluence.spaceKey}${parentId ? ` under ${parentId}` : ''}`,
+      details: `${body.length} characters`,
+      request: { method: 'POST', url: apiUrl('content'), body: payload },
+    }, { id: dryRun.nextId(), title });
+  }
   const res = await request(apiUrl('content'), { method: 'POST', headers: authHeaders(), body: payload });
   if (res.status >= 300) throw new Error(`Confluence createPage error: ${JSON.stringify(res.data)}`);
   logger.success(`Created Confluence page: ${(res.data as { title: string; id: string }).title} (${(res.data as { title: string; id: string }).id})`);
@@ -65,6 +75,16 @@ async function createPage(input: { title: string; body: string; spaceKey?: strin
 
 async function updatePage(input: { pageId: string; title?: string; body: string; versionComment?: string }): Promise<unknown> {
   const { pageId, title, body, versionComment } = input;
+  // The page may only exist in this dry run, so skip the version lookup
+  if (dryRun.enabled) {
+    return dryRun.record({
+      system: 'confluence',
+      action: 'Update page',
+      target: pageId,
+      details: `${title ? `title "${title}", ` : ''}${body.length} characters${versionComment ? ` (${versionComment})` : ''}`,
+      request: { method: 'PUT', url: apiUrl(`content/${pageId}`), body: { type: 'page', title, body: { storage: { value: body, representation: 'storage' } } } },
+    }, { id: pageId, title });
+  }
   // Get current version
   const current = await getPage({ pageId, expand: 'version' });
   const newVersion = ((current as { version: { number: number } }).version.number || 0) + 1;
@@ -86,6 +106,14 @@ async function updatePage(input: { pageId: string; title?: string; body: string;
 
 async function deletePage(input: { pageId: string }): Promise<unknown> {
   const { pageId } = input;
+  if (dryRun.enabled) {
+    return dryRun.record({
+      system: 'confluence',
+      action: 'Delete page',
+      target: pageId,
+      request: { method: 'DELETE', url: apiUrl(`content/${pageId}`) },
+    }, { success: true, pageId });
+  }
   const res = await request(apiUrl(`content/${pageId}`), { method: 'DELETE', headers: authHeaders() });
   if (res.status >= 300) throw new Error(`Confluence deletePage error: ${JSON.stringify(res.data)}`);
   logger.success(`Deleted Confluence page: ${pageId}`);
@@ -101,6 +129,14 @@ async function addComment(input: { pageId: string; comment: string }): Promise<u
       storage: { value: `<p>${comment}</p>`, representation: 'storage' },
     },
   };
+  if (dryRun.enabled) {
+    return dryRun.record({
+      system: 'confluence',
+      action: 'Comment on page',
+      target: pageId,
+      request: { method: 'POST', url: apiUrl('content'), body: payload },
+    }, { id: dryRun.nextId() });
+  }
   const res = await request(apiUrl('content'), { method: 'POST', headers: authHeaders(), body: payload });
   if (res.status >= 300) throw new Error(`Confluence addComment error: ${JSON.stringify(res.data)}`);
   logger.success(`Added comment to Confluence page ${pageId}`);
@@ -111,6 +147,16 @@ async function mergePages(input: { sourcePageIds: string[]; targetPageId: string
   const { sourcePageIds, targetPageId, mergeStrategy } = input;
   const strategy = mergeStrategy || 'append';
 
+  if (dryRun.enabled) {
+    return dryRun.record({
+      system: 'confluence',
+      action: 'Merge pages',
+      target: `${sourcePageIds.join(', ')} into ${targetPageId}`,
+      details: strategy,
+      request: { method: 'PUT', url: apiUrl(`content/${targetPageId}`) },
+    }, { id: targetPageId });
+  }
+
   // Fetch all source pages
   const sources = [];
   for (const pid of sourcePageIds) {
@@ -167,6 +213,7 @@ const confluenceTools: Tool[] = [
         required: ['pageId'],
       },
     execute: getPage as any,
+    readOnly: true,
   },
   {
       name: 'confluence_search',
@@ -181,6 +228,7 @@ const confluenceTools: Tool[] = [
         required: ['query'],
       },
     execute: searchPages as any,
+    readOnly: true,
   },
   {
       name: 'confluence_create_page',
@@ -221,6 +269,7 @@ const confluenceTools: Tool[] = [
         required: ['pageId'],
       },
     execute: deletePage as any,
+    destructive: true,
   },
   {
       name: 'confluence_add_comment',
@@ -248,6 +297,7 @@ const confluenceTools: Tool[] = [
         required: ['sourcePageIds', 'targetPageId'],
       },
     execute: mergePages as any,
+    destructive: true,
   },
   {
       name: 'confluence_get_children',
@@ -261,6 +311,7 @@ const confluenceTools: Tool[] = [
         required: ['pageId'],
       },
     execute: getPageChildren as any,
+    readOnly: true,
   },
 ];
 
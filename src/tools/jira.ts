@@ -4,6 +4,7 @@
 import { request } from '../utils/http.js';
 import config from '../config.js';
 import logger from '../utils/logger.js';
+import { dryRun } from '../utils/dry-run.js';
 import type { Tool } from '../types/index.js';
 
 interface CreateIssueInput {
@@ -62,6 +63,16 @@ async function createIssue(input: CreateIssueInput): Promise<unknown> {
   if (assignee) fields.assignee = { accountId: assignee };
   if (storyPoints) fields.story_points = storyPoints;
 
+  if (dryRun.enabled) {
+    const key = dryRun.nextId();
+    return dryRun.record({
+      system: 'jira',
+      action: `Create ${issueType || 'Task'}`,
+      target: `"${summary}" in ${projectKey || config.jira.projectKey}${parentKey ? ` under ${parentKey}` : ''}`,
+      request: { method: 'POST', url: apiUrl('issue'), body: { fields } },
+    }, { id: key, key });
+  }
+
   const res = await request(apiUrl('issue'), { method: 'POST', headers: authHeaders(), body: { fields } });
   if (res.status >= 300) throw new Error(`Jira createIssue error: ${JSON.stringify(res.data)}`);
   logger.success(`Created Jira issue ${(res.data as { key: string }).key}`);
@@ -90,6 +101,16 @@ async function updateIssue(input: UpdateIssueInput): Promise<unknown> {
   if (assignee) fields.assignee = { accountId: assignee };
   if (storyPoints) fields.story_points = storyPoints;
 
+  if (dryRun.enabled) {
+    return dryRun.record({
+      system: 'jira',
+      action: 'Update issue',
+      target: issueKey,
+      details: `fields: ${Object.keys(fields).join(', ') || 'none'}`,
+      request: { method: 'PUT', url: apiUrl(`issue/${issueKey}`), body: { fields } },
+    }, { success: true, issueKey });
+  }
+
   const res = await request(apiUrl(`issue/${issueKey}`), { method: 'PUT', headers: authHeaders(), body: { fields } });
   if (res.status >= 300) throw new Error(`Jira updateIssue error: ${JSON.stringify(res.data)}`);
   logger.success(`Updated Jira issue ${issueKey}`);
@@ -104,6 +125,14 @@ async function addComment(input: { issueKey: string; comment: string }): Promise
       content: [{ type: 'paragraph', content: [{ type: 'text', text: comment }] }],
     },
   };
+  if (dryRun.enabled) {
+    return dryRun.record({
+      system: 'jira',
+      action: 'Comment on',
+      target: issueKey,
+      request: { method: 'POST', url: apiUrl(`issue/${issueKey}/comment`), body },
+    }, { id: dryRun.nextId() });
+  }
   const res = await request(apiUrl(`issue/${issueKey}/comment`), { method: 'POST', headers: authHeaders(), body });
   if (res.status >= 300) throw new Error(`Jira addComment error: ${JSON.stringify(res.data)}`);
   logger.success(`Added comment to ${issueKey}`);
@@ -112,6 +141,15 @@ async function addComment(input: { issueKey: string; comment: string }): Promise
 
 async function transitionIssue(input: { issueKey: string; transitionName: string }): Promise<unknown> {
   const { issueKey, transitionName } = input;
+  // The issue may only exist in this dry run, so skip the transition lookup
+  if (dryRun.enabled) {
+    return dryRun.record({
+      system: 'jira',
+      action: 'Transition',
+      target: `${issueKey} → ${transitionName}`,
+      request: { method: 'POST', url: apiUrl(`issue/${issueKey}/transitions`), body: { transition: { name: transitionName } } },
+    }, { success: true, issueKey, newStatus: transitionName });
+  }
   // First, fetch available transitions
   const trRes = await request(apiUrl(`issue/${issueKey}/transitions`), { method: 'GET', headers: authHeaders() });
   if (trRes.status >= 300) throw new Error(`Jira transitions error: ${JSON.stringify(trRes.data)}`);
@@ -191,6 +229,7 @@ const jiraTools: Tool[] = [
       required: ['issueKey'],
     },
     execute: getIssue as any,
+    readOnly: true,
   },
   {
     name: 'jira_update_issue',
@@ -235,6 +274,7 @@ const jiraTools: Tool[] = [
       required: ['issueKey', 'transitionName'],
     },
     execute: transitionIssue as any,
+    destructive: true,
   },
   {
     name: 'jira_search',
@@ -248,6 +288,7 @@ const jiraTools: Tool[] = [
       required: ['jql'],
     },
     execute: searchIssues as any,
+    readOnly: true,
   },
   {
     name: 'jira_add_subtask',
@@ -271,6 +312,7 @@ const jiraTools: Tool[] = [
       properties: { projectKey: { type: 'string' } },
     },
     execute: getProjectStatuses as any,
+    readOnly: true,
   },
 ];
 
@@ -8,6 +8,7 @@ import { spawn, ChildProcess } from 'node:child_process';
 import { request } from '../utils/http.js';
 import logger from '../utils/logger.js';
 import registry from './registry.js';
+import { dryRun } from '../utils/dry-run.js';
 import fs from 'node:fs';
 import path from 'node:path';
 
@@ -25,6 +26,7 @@ interface ToolDefinition {
   description?: string;
   inputSchema?: unknown;
   input_schema?: unknown;
+  annotations?: { readOnlyHint?: boolean; destructiveHint?: boolean };
 }
 
 // ── Stdio Transport ─────────────────────────────────────────────────────────
@@ -217,6 +219,7 @@ class MCPManager {
 
       for (const tool of tools) {
         const mcpToolName = `mcp_${serverConfig.name}_${tool.name}`;
+        const readOnly = tool.annotations?.readOnlyHint === true;
         registry.register(
           {
             name: mcpToolName,
@@ -224,9 +227,18 @@ class MCPManager {
             input_schema: (tool.inputSchema || tool.input_schema || { type: 'object', properties: {} }) as { type: 'object'; properties: Record<string, unknown>; required?: string[] },
           },
           (async (input: unknown) => {
+            if (dryRun.enabled && !readOnly) {
+              return dryRun.record({ system: 'mcp', action: 'Call', target: mcpToolName, details: JSON.stringify(input).slice(0, 200) }, {});
+            }
             const result = await client.callTool(tool.name, input);
             return result;
-          }) as any
+          }) as any,
+          // MCP tool annotations: readOnlyHint marks side-effect-free tools;
+          // destructiveHint defaults to true for everything else
+          {
+            readOnly,
+            destructive: tool.annotations?.destructiveHint !== false,
+          }
         );
       }
 
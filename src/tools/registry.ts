@@ -3,25 +3,81 @@
 // ============================================================================
 
 import logger from '../utils/logger.js';
-import type { ToolDefinition, ToolInput, Tool, ToolOutput } from '../types/index.js';
+import { raceAbort, throwIfAborted } from '../utils/abort.js';
+import { approvals } from './approvals.js';
+import type { ToolRisk } from './approvals.js';
+import type { ToolDefinition, ToolInput, Tool, ToolOutput, ToolContext } from '../types/index.js';
+
+type ToolHandler = (input: ToolInput, context?: ToolContext) => Promise<ToolOutput>;
 
 interface ToolEntry {
   definition: ToolDefinition;
-  handler: (input: ToolInput) => Promise<ToolOutput>;
+  handler: ToolHandler;
+  readOnly: boolean;
+  destructive: boolean;
+  riskOf?: (input: ToolInput) => ToolRisk;
+}
+
+export interface ToolOptions {
+  /** Tools without side effects may run concurrently; everything else runs alone. */
+  readOnly?: boolean;
+  /** Hard-to-undo side effects (deleting, approving, running commands); never auto-approved as a plain write. */
+  destructive?: boolean;
+  /** Approval risk of one call, when it depends on the input (e.g. which command runs). */
+  riskOf?: (input: ToolInput) => ToolRisk;
+}
+
+/**
+ * Named tool groups, usable as `@name` in tool selectors. A group is a list
+ * of selectors, or a predicate over registered tools.
+ */
+type ToolGroup = string[] | ((name: string, entry: ToolEntry) => boolean);
+
+const DEFAULT_GROUPS: Record<string, ToolGroup> = {
+  jira: ['jira_*'],
+  confluence: ['confluence_*'],
+  bitbucket: ['bitbucket_*'],
+  code: ['code_*'],
+  skills: ['skills_*'],
+  mcp: ['mcp_*'],
+  sdlc: ['@jira', '@confluence', '@bitbucket'],
+  readonly: (_name, entry) => entry.readOnly,
+  destructive: (_name, entry) => entry.destructive,
+};
+
+/**
+ * Convert a `*` / `?` glob into an anchored regex.
+ */
+export function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\?/g, '.');
+  return new RegExp(`^${source}$`);
 }
 
 class ToolRegistry {
   private tools: Map<string, ToolEntry>;
+  private groups: Map<string, ToolGroup>;
+  /** Selectors already reported as matching nothing, so each warns once. */
+  private warnedSelectors = new Set<string>();
 
   constructor() {
     this.tools = new Map();
+    this.groups = new Map(Object.entries(DEFAULT_GROUPS));
   }
 
   /**
    * Register a tool.
    */
-  register(definition: ToolDefinition, handler: (input: ToolInput) => Promise<ToolOutput>): void {
-    this.tools.set(definition.name, { definition, handler });
+  register(definition: ToolDefinition, handler: ToolHandler, options: ToolOptions = {}): void {
+    this.tools.set(definition.name, {
+      definition,
+      handler,
+      readOnly: options.readOnly === true,
+      destructive: options.readOnly !== true && options.destructive === true,
+      riskOf: options.riskOf,
+    });
     logger.debug(`Tool registered: ${definition.name}`);
   }
 
@@ -36,7 +92,8 @@ class ToolRegistry {
           description: tool.description,
           input_schema: tool.input_schema,
         },
-        tool.execute
+        tool.execute,
+        { readOnly: tool.readOnly, destructive: tool.destructive, riskOf: tool.riskOf }
       );
     }
   }
@@ -49,25 +106,107 @@ class ToolRegistry {
   }
 
   /**
-   * Get definitions filtered by tool names.
+   * Get definitions for a list of tool selectors (see `resolve`).
    */
-  definitionsFor(names: string[]): ToolDefinition[] {
-    return names
-      .filter((n) => this.tools.has(n))
-      .map((n) => this.tools.get(n)!.definition);
+  definitionsFor(selectors: string[]): ToolDefinition[] {
+    return this.resolve(selectors).map((n) => this.tools.get(n)!.definition);
   }
 
   /**
-   * Execute a tool by name.
+   * Define or replace a tool group, usable as `@name` in selectors.
    */
-  async execute(name: string, input: ToolInput): Promise<ToolOutput> {
+  defineGroup(name: string, selectors: string[]): void {
+    this.groups.set(name, selectors);
+  }
+
+  /**
+   * Names of the defined tool groups.
+   */
+  groupNames(): string[] {
+    return [...this.groups.keys()];
+  }
+
+  /**
+   * Resolve tool selectors to registered tool names, in registration order.
+   * A selector is an exact name, a glob (`code_*`), a group (`@sdlc`), or
+   * any of those prefixed with `!` to exclude. With only exclusions, they
+   * apply to every tool. Selectors that match nothing are warned about once.
+   */
+  resolve(selectors: string[]): string[] {
+    const included = new Set<string>();
+    const excluded = new Set<string>();
+    const includes = selectors.filter((s) => !s.startsWith('!'));
+
+    for (const selector of selectors) {
+      const exclude = selector.startsWith('!');
+      const matched = this.match(exclude ? selector.slice(1) : selector, new Set());
+      if (matched.length === 0) this.warnUnmatched(selector);
+      for (const name of matched) (exclude ? excluded : included).add(name);
+    }
+
+    const pool = includes.length > 0 ? included : new Set(this.tools.keys());
+    return this.names().filter((n) => pool.has(n) && !excluded.has(n));
+  }
+
+  private match(selector: string, seenGroups: Set<string>): string[] {
+    if (selector.startsWith('@')) {
+      const groupName = selector.slice(1);
+      const group = this.groups.get(groupName);
+      if (!group || seenGroups.has(groupName)) return [];
+      seenGroups.add(groupName);
+      if (typeof group === 'function') {
+        return [...this.tools.entries()].filter(([name, entry]) => group(name, entry)).map(([name]) => name);
+      }
+      return group.flatMap((s) => this.match(s, seenGroups));
+    }
+    if (/[*?]/.test(selector)) {
+      const pattern = globToRegExp(selector);
+      return this.names().filter((n) => pattern.test(n));
+    }
+    return this.tools.has(selector) ? [selector] : [];
+  }
+
+  private warnUnmatched(selector: string): void {
+    if (this.warnedSelectors.has(selector)) return;
+    this.warnedSelectors.add(selector);
+    logger.warn(`Tool selector "${selector}" matches no registered tools`);
+  }
+
+  /**
+   * Execute a tool by name. Tools that are not read-only go through the
+   * approval gate first, which may edit the input or reject with a
+   * ToolDeniedError. When `context.signal` aborts, the call rejects
+   * straight away; handlers that accept the context can also stop their work.
+   */
+  async execute(name: string, input: ToolInput, context: ToolContext = {}): Promise<ToolOutput> {
     const entry = this.tools.get(name);
     if (!entry) {
       throw new Error(`Unknown tool: ${name}`);
     }
 
-    logger.tool(name, JSON.stringify(input).slice(0, 200));
-    return entry.handler(input);
+    throwIfAborted(context.signal);
+    const approvedInput = await approvals.check({ tool: name, input, risk: this.risk(name, input), agent: context.agent }, context.signal);
+    return raceAbort(entry.handler(approvedInput, context), context.signal);
+  }
+
+  /**
+   * Whether a tool is safe to run concurrently. Unknown tools are not.
+   */
+  isReadOnly(name: string): boolean {
+    return this.tools.get(name)?.readOnly === true;
+  }
+
+  /**
+   * How much a call can change: `read`, `write` or `destructive`. With
+   * `input`, tools that classify their calls decide per call.
+   * Unknown tools count as destructive.
+   */
+  risk(name: string, input?: ToolInput): ToolRisk {
+    const entry = this.tools.get(name);
+    if (!entry) return 'destructive';
+    if (entry.riskOf && input) return entry.riskOf(input);
+    if (entry.readOnly) return 'read';
+    return entry.destructive ? 'destructive' : 'write';
   }
 
   /**
@@ -100,6 +239,9 @@ class ToolRegistry {
       description: entry.definition.description,
       input_schema: entry.definition.input_schema,
       execute: entry.handler,
+      readOnly: entry.readOnly,
+      destructive: entry.destructive,
+      riskOf: entry.riskOf,
     }));
   }
 }
@@ -7,6 +7,7 @@ import path from 'node:path';
 import config from '../config.js';
 import { readFile, writeFile, exists, walkDir } from '../utils/fs.js';
 import logger from '../utils/logger.js';
+import { dryRun } from '../utils/dry-run.js';
 import type { Tool } from '../types/index.js';
 
 function skillsDir(): string {
@@ -40,6 +41,9 @@ async function saveSkill(input: { skillName: string; content: string; category?:
   const cat = category || 'general';
   const fileName = skillName.endsWith('.md') ? skillName : `${skillName}.md`;
   const filePath = path.join(skillsDir(), cat, fileName);
+  if (dryRun.enabled) {
+    return dryRun.record({ system: 'skills', action: exists(filePath) ? 'Update skill' : 'Save skill', target: `${cat}/${fileName}` }, { saved: true, path: `${cat}/${fileName}` });
+  }
   writeFile(filePath, content);
   logger.success(`Saved skill: ${cat}/${fileName}`);
   return { saved: true, path: `${cat}/${fileName}` };
@@ -51,6 +55,9 @@ async function deleteSkill(input: { skillName: string; category?: string }): Pro
   const fileName = skillName.endsWith('.md') ? skillName : `${skillName}.md`;
   const filePath = path.join(skillsDir(), cat, fileName);
   if (!exists(filePath)) throw new Error(`Skill not found: ${cat}/${fileName}`);
+  if (dryRun.enabled) {
+    return dryRun.record({ system: 'skills', action: 'Delete skill', target: `${cat}/${fileName}` }, { deleted: true, path: `${cat}/${fileName}` });
+  }
   const fsModule = await import('node:fs');
   fsModule.unlinkSync(filePath);
   logger.success(`Deleted skill: ${cat}/${fileName}`);
@@ -65,6 +72,7 @@ const skillsTools: Tool[] = [
       description: 'List all saved DEVWEAVER skills (coding standards, review checklists, test patterns, etc.).',
       input_schema: { type: 'object', properties: {} },
     execute: listSkills as any,
+    readOnly: true,
   },
     {
       name: 'skills_get',
@@ -75,6 +83,7 @@ const skillsTools: Tool[] = [
         required: ['skillName'],
       },
     execute: getSkill as any,
+    readOnly: true,
   },
     {
       name: 'skills_save',
@@ -102,6 +111,7 @@ const skillsTools: Tool[] = [
         required: ['skillName'],
       },
     execute: deleteSkill as any,
+    destructive: true,
   },
 ];
 
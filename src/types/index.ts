@@ -4,12 +4,32 @@
 
 // ── Configuration Types ─────────────────────────────────────────────────────
 
+export interface RetryConfig {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+/** Price in USD per million tokens. */
+export interface ModelPrice {
+  input: number;
+  output: number;
+  /** Defaults to 1.25 × input. */
+  cacheWrite?: number;
+  /** Defaults to 0.1 × input. */
+  cacheRead?: number;
+}
+
 export interface LLMConfig {
   provider: string;
   apiKey: string;
   model: string;
   maxTokens: number;
   baseUrl: string;
+  stream: boolean;
+  retry: RetryConfig;
+  pricing: Record<string, ModelPrice>;
+  promptCaching: boolean;
 }
 
 export interface JiraConfig {
@@ -53,9 +73,43 @@ export interface SkillsConfig {
   directory: string;
 }
 
+export interface SessionsConfig {
+  /** Where REPL sessions are saved, relative to the working directory. */
+  directory: string;
+}
+
 export interface AgentConfig {
   maxIterations: number;
+  /** Delegation rounds the orchestrator may take before it must summarise. */
+  maxOrchestratorLoops: number;
   verbose: boolean;
+  /** Per-session spend limit in USD; 0 disables the limit. */
+  budgetUsd: number;
+  /** Wall-clock limit for one agent or orchestrator run in ms; 0 disables. */
+  timeoutMs: number;
+  /** How many read-only tool calls from one model turn may run at once. */
+  toolConcurrency: number;
+  /** Sub-agents the orchestrator runs at once when it delegates several in one turn. */
+  delegationConcurrency: number;
+  /** Phase tasks executed at once when their dependencies allow it. */
+  taskConcurrency: number;
+  /** Run each executor in its own git worktree and merge its branch back. */
+  worktrees: boolean;
+  /** Executor attempts per task before a failed verification becomes a blocker. */
+  verifyAttempts: number;
+  /** Estimated prompt size at which conversations are compacted; 0 disables. */
+  compactAtTokens: number;
+  /** JSONL file recording every tool call, delegation and run; empty disables. */
+  auditLog: string;
+  /** Tool approval policy (prompt | allow | writes | deny); empty picks one per mode. */
+  approval: string;
+  /** Record mutating tool calls as a change plan instead of executing them (same as --dry-run). */
+  dryRun: boolean;
+}
+
+export interface CassetteConfig {
+  mode: 'off' | 'record' | 'replay';
+  path: string;
 }
 
 export interface Config {
@@ -66,7 +120,9 @@ export interface Config {
   mcp: MCPConfig;
   repo: RepoConfig;
   skills: SkillsConfig;
+  sessions: SessionsConfig;
   agent: AgentConfig;
+  cassette: CassetteConfig;
 }
 
 // ── LLM Types ───────────────────────────────────────────────────────────────
@@ -77,7 +133,7 @@ export interface Message {
 }
 
 export interface ContentBlock {
-  type: 'text' | 'tool_use' | 'tool_result';
+  type: 'text' | 'tool_use' | 'tool_result' | 'image' | 'document';
   text?: string;
   id?: string;
   name?: string;
@@ -85,6 +141,23 @@ export interface ContentBlock {
   tool_use_id?: string;
   content?: string | unknown;
   is_error?: boolean;
+  /** Payload of `image` and `document` blocks. */
+  source?: MediaSource;
+  /** Display name of a `document` block, usually the file name. */
+  title?: string;
+  cache_control?: CacheControl;
+}
+
+/** Base64 file contents attached to an `image` (PNG/JPEG/GIF/WebP) or `document` (PDF) block. */
+export interface MediaSource {
+  type: 'base64';
+  media_type: string;
+  data: string;
+}
+
+/** Marks the end of a cacheable prompt prefix (Anthropic prompt caching). */
+export interface CacheControl {
+  type: 'ephemeral';
 }
 
 export interface ToolUseBlock extends ContentBlock {
@@ -104,11 +177,54 @@ export interface ToolDefinition {
   };
 }
 
+/**
+ * The JSON Schema subset understood by `utils/schema.ts`, used for
+ * structured agent output.
+ */
+export interface JSONSchema {
+  type?: string | string[];
+  description?: string;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JSONSchema;
+  items?: JSONSchema;
+  enum?: unknown[];
+  const?: unknown;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+}
+
+/**
+ * `auto` lets the model decide, `any` requires some tool call, `tool`
+ * requires the named tool.
+ */
+export type ToolChoice = { type: 'auto' } | { type: 'any' } | { type: 'tool'; name: string };
+
 export interface LLMCallOptions {
   systemPrompt: string;
   messages: Message[];
   tools?: ToolDefinition[];
+  /** Which tool the model must call; only sent when `tools` are. */
+  toolChoice?: ToolChoice;
+  /** Overrides `config.llm.model`, e.g. from the active model profile. */
+  model?: string;
   maxTokens?: number;
+  /** Stream the response; defaults to `config.llm.stream` when someone is listening. */
+  stream?: boolean;
+  /** Receives text deltas as they arrive (streaming only). */
+  onText?: (delta: string) => void;
+  /** Label for progress output, usually the calling agent's name. */
+  agentName?: string;
+  /** Correlates `llm:*` events with the calling run. */
+  runId?: string;
+  /** Mark system prompt, tools and message prefix cacheable; defaults to `config.llm.promptCaching`. */
+  cache?: boolean;
+  /** Cancels the call, including retry waits. */
+  signal?: AbortSignal;
 }
 
 export interface LLMResponse {
@@ -120,11 +236,64 @@ export interface LLMResponse {
   stop_reason: string;
   stop_sequence?: string;
   usage: {
+    /** Uncached input tokens. */
     input_tokens: number;
     output_tokens: number;
+    cache_creation_input_tokens?: number;
+    cache_read_input_tokens?: number;
   };
 }
 
+/** Resolved connection settings handed to a provider adapter for one call. */
+export interface LLMRequestSettings {
+  model: string;
+  maxTokens: number;
+  apiKey: string;
+  baseUrl: string;
+}
+
+/** A provider-specific HTTP request built by an adapter. */
+export interface LLMHttpRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: Record<string, unknown>;
+}
+
+/** A single server-sent event. */
+export interface SSEEvent {
+  event?: string;
+  data: string;
+}
+
+/** Reassembles streamed events into a complete LLMResponse. */
+export interface LLMStreamAccumulator {
+  push: (event: SSEEvent) => void;
+  finish: () => LLMResponse;
+}
+
+/**
+ * Translates between DEVWEAVER's Anthropic-shaped message types and a
+ * provider's wire format.
+ */
+export interface LLMAdapter {
+  name: string;
+  defaultBaseUrl: string;
+  /** Build the HTTP request; honours `opts.stream`. */
+  buildRequest: (opts: LLMCallOptions, settings: LLMRequestSettings) => LLMHttpRequest;
+  parseResponse: (data: unknown) => LLMResponse;
+  createStreamAccumulator: (onText: (delta: string) => void) => LLMStreamAccumulator;
+}
+
+/** Aggregated token usage and cost across one or more LLM calls. */
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  costUsd: number;
+}
+
 // ── Tool Types ──────────────────────────────────────────────────────────────
 
 export interface ToolInput {
@@ -146,7 +315,21 @@ export interface Tool {
     properties: Record<string, unknown>;
     required?: string[];
   };
-  execute: (input: ToolInput) => Promise<ToolOutput>;
+  execute: (input: ToolInput, context?: ToolContext) => Promise<ToolOutput>;
+  /** No side effects, so calls may run concurrently with other read-only calls. */
+  readOnly?: boolean;
+  /** Deletes, approves or runs things that are hard to undo; needs explicit approval. */
+  destructive?: boolean;
+  /** Approval risk of one call, when it depends on the input (overrides the flags above). */
+  riskOf?: (input: ToolInput) => 'read' | 'write' | 'destructive';
+}
+
+/** Passed to tool handlers alongside their input. */
+export interface ToolContext {
+  /** Aborted when the calling run is cancelled or times out. */
+  signal?: AbortSignal;
+  /** Name of the agent making the call, shown in approval prompts. */
+  agent?: string;
 }
 
 export interface ToolRegistry {
@@ -309,6 +492,15 @@ export interface AgentContext {
   maxIterations: number;
 }
 
+/**
+ * How an agent or orchestrator run ended. `completed`: the model finished on
+ * its own. `max_iterations`: the loop limit was hit and a short summary was
+ * forced. `max_tokens`: the final answer was cut off at max_tokens.
+ * `error` / `cancelled` runs reject instead of returning; those statuses
+ * appear on `run:end` events and on delegations.
+ */
+export type RunStatus = 'completed' | 'max_iterations' | 'max_tokens' | 'error' | 'cancelled';
+
 export interface AgentResult {
   success: boolean;
   output: string;
@@ -327,6 +519,10 @@ export interface HttpRequestOptions {
     username: string;
     password: string;
   };
+  /** Label stored with cassette recordings, e.g. `llm`. Defaults to `http`. */
+  tag?: string;
+  /** Aborts the request; it then rejects with an AbortError. */
+  signal?: AbortSignal;
 }
 
 export interface HttpResponse<T = unknown> {
@@ -0,0 +1,109 @@
+// ============================================================================
+// DEVWEAVER – Cancellation Helpers
+//
+// Agent runs take an AbortSignal that is passed down to LLM calls, HTTP
+// requests, retry waits and tool calls. Ctrl+C in the REPL and per-run
+// timeouts both abort through it.
+// ============================================================================
+
+/**
+ * Raised when work is cancelled. The signal's reason, when it is one of
+ * these, is thrown as-is so callers see why the run stopped.
+ */
+export class AbortError extends Error {
+  constructor(message = 'Cancelled') {
+    super(message);
+    this.name = 'AbortError';
+  }
+}
+
+export class TimeoutError extends AbortError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * True for our AbortError / TimeoutError and for Node's own abort errors.
+ */
+export function isAbortError(err: unknown): boolean {
+  return err instanceof AbortError
+    || (err instanceof Error && (err.name === 'AbortError' || (err as NodeJS.ErrnoException).code === 'ABORT_ERR'));
+}
+
+/**
+ * The error to throw for an aborted signal.
+ */
+export function abortReason(signal: AbortSignal): Error {
+  return signal.reason instanceof Error ? signal.reason : new AbortError();
+}
+
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) throw abortReason(signal);
+}
+
+/**
+ * Settle with `promise`, or reject as soon as `signal` aborts. The
+ * underlying work is not stopped, only no longer waited for.
+ */
+export function raceAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  throwIfAborted(signal);
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = (): void => reject(abortReason(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (err: unknown) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(err);
+      }
+    );
+  });
+}
+
+/**
+ * Wait `ms`, rejecting early if `signal` aborts.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return raceAbort(new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => clearTimeout(timer), { once: true });
+  }), signal);
+}
+
+export interface ScopedSignal {
+  signal: AbortSignal;
+  /** Clears the timeout and detaches from the parent signal. */
+  dispose: () => void;
+}
+
+/**
+ * A signal that aborts when `parent` aborts or after `timeoutMs`
+ * (0 = no timeout), whichever comes first. Call `dispose` when the
+ * run ends so the timer does not keep the process alive.
+ */
+export function scopedSignal(parent: AbortSignal | undefined, timeoutMs: number, label: string): ScopedSignal {
+  const controller = new AbortController();
+  const onParentAbort = (): void => controller.abort(parent ? abortReason(parent) : new AbortError());
+
+  if (parent?.aborted) onParentAbort();
+  else parent?.addEventListener('abort', onParentAbort, { once: true });
+
+  const timer = timeoutMs > 0
+    ? setTimeout(() => controller.abort(new TimeoutError(`${label} timed out after ${Math.round(timeoutMs / 1000)}s`)), timeoutMs)
+    : undefined;
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      if (timer) clearTimeout(timer);
+      parent?.removeEventListener('abort', onParentAbort);
+    },
+  };
+}
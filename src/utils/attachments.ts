@@ -0,0 +1,137 @@
+// ============================================================================
+// DEVWEAVER – File Attachments
+//
+// Turns `@path` references in user input into image / document content
+// blocks so wireframes, screenshots, diagrams and PDFs reach the model as
+// the files themselves rather than as a description.
+// ============================================================================
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { execFileSync } from 'node:child_process';
+import logger from './logger.js';
+import type { ContentBlock } from '../types/index.js';
+
+/** Anthropic's per-image limit; the other providers accept at least this much. */
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+const MAX_DOCUMENT_BYTES = 32 * 1024 * 1024;
+
+const IMAGE_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+};
+
+const DOCUMENT_TYPES: Record<string, string> = {
+  '.pdf': 'application/pdf',
+};
+
+export const SUPPORTED_EXTENSIONS = [...Object.keys(IMAGE_TYPES), ...Object.keys(DOCUMENT_TYPES), '.svg'];
+
+/** `@path` or `@"path with spaces"`, at the start of the input or after whitespace. */
+const ATTACHMENT_PATTERN = /(^|\s)@(?:"([^"]+)"|(\S+))/g;
+
+export interface ParsedInput {
+  /** The input with attachment references replaced by their file names. */
+  message: string;
+  attachments: ContentBlock[];
+}
+
+/**
+ * Models only accept raster images, so SVG is converted with `rsvg-convert`
+ * when it is installed. Without it the SVG markup is sent as text, which
+ * models read well enough for diagrams.
+ */
+function rasterizeSvg(file: string): Buffer | null {
+  try {
+    return execFileSync('rsvg-convert', ['--format', 'png', file], {
+      maxBuffer: MAX_IMAGE_BYTES * 2,
+      timeout: 15_000,
+      stdio: ['ignore', 'pipe', 'ignore'],
+    });
+  } catch {
+    return null;
+  }
+}
+
+function imageBlock(data: Buffer, mediaType: string, name: string): ContentBlock {
+  if (data.length > MAX_IMAGE_BYTES) {
+    throw new Error(`${name} is ${(data.length / 1024 / 1024).toFixed(1)} MB; images are limited to ${MAX_IMAGE_BYTES / 1024 / 1024} MB`);
+  }
+  return { type: 'image', source: { type: 'base64', media_type: mediaType, data: data.toString('base64') } };
+}
+
+/**
+ * Load a local file as a content block. Throws for missing, unsupported
+ * or oversized files.
+ */
+export function loadAttachment(filePath: string, baseDir: string = process.cwd()): ContentBlock {
+  const resolved = path.resolve(baseDir, filePath);
+  const name = path.basename(resolved);
+  const ext = path.extname(resolved).toLowerCase();
+
+  if (!fs.existsSync(resolved) || !fs.statSync(resolved).isFile()) {
+    throw new Error(`Attachment not found: ${filePath}`);
+  }
+
+  if (IMAGE_TYPES[ext]) {
+    return imageBlock(fs.readFileSync(resolved), IMAGE_TYPES[ext], name);
+  }
+
+  if (DOCUMENT_TYPES[ext]) {
+    const data = fs.readFileSync(resolved);
+    if (data.length > MAX_DOCUMENT_BYTES) {
+      throw new Error(`${name} is ${(data.length / 1024 / 1024).toFixed(1)} MB; documents are limited to ${MAX_DOCUMENT_BYTES / 1024 / 1024} MB`);
+    }
+    return {
+      type: 'document',
+      title: name,
+      source: { type: 'base64', media_type: DOCUMENT_TYPES[ext], data: data.toString('base64') },
+    };
+  }
+
+  if (ext === '.svg') {
+    const png = rasterizeSvg(resolved);
+    if (png) return imageBlock(png, 'image/png', name);
+    logger.debug(`rsvg-convert unavailable; attaching ${name} as SVG markup`);
+    return { type: 'text', text: `Contents of ${name} (SVG):\n${fs.readFileSync(resolved, 'utf-8')}` };
+  }
+
+  throw new Error(`Unsupported attachment type "${ext || name}". Supported: ${SUPPORTED_EXTENSIONS.join(', ')}`);
+}
+
+/**
+ * Extract `@path` attachments from user input. References that do not
+ * point at an existing file with a supported extension (e.g. `@alice`
+ * mentions) are left in the message untouched.
+ */
+export function parseAttachments(input: string, baseDir: string = process.cwd()): ParsedInput {
+  const attachments: ContentBlock[] = [];
+
+  const message = input.replace(ATTACHMENT_PATTERN, (match, lead: string, quoted?: string, bare?: string) => {
+    const ref = quoted ?? bare ?? '';
+    if (!SUPPORTED_EXTENSIONS.includes(path.extname(ref).toLowerCase())) return match;
+    if (!fs.existsSync(path.resolve(baseDir, ref))) return match;
+
+    attachments.push(loadAttachment(ref, baseDir));
+    return `${lead}[attached: ${path.basename(ref)}]`;
+  });
+
+  return { message: message.trim(), attachments };
+}
+
+/**
+ * Short text summary of attachments, e.g. for the orchestrator or for
+ * conversation history where the file contents themselves are not kept.
+ */
+export function describeAttachments(attachments: ContentBlock[]): string {
+  return attachments
+    .map((a) => {
+      if (a.type === 'document') return `${a.title || 'document'} (${a.source?.media_type})`;
+      if (a.type === 'image') return `image (${a.source?.media_type})`;
+      return 'SVG markup';
+    })
+    .join(', ');
+}
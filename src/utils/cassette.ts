@@ -0,0 +1,126 @@
+// ============================================================================
+// DEVWEAVER – HTTP Cassettes (record / replay)
+//
+// In record mode every request made through utils/http.ts — LLM calls and
+// Jira/Confluence/Bitbucket traffic alike — is written to a JSON cassette.
+// In replay mode responses are served back from the cassette in order and
+// any request that was not recorded fails, so whole agent workflows run
+// offline and deterministically.
+// ============================================================================
+
+import fs from 'node:fs';
+import path from 'node:path';
+
+export type CassetteMode = 'off' | 'record' | 'replay';
+
+export interface CassetteEntry {
+  /** `llm` for provider calls, `http` for everything else. */
+  tag: string;
+  request: {
+    method: string;
+    url: string;
+    body?: unknown;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    data?: unknown;
+    /** Raw body of a streamed (SSE) response. */
+    stream?: string;
+  };
+}
+
+interface CassetteFile {
+  version: 1;
+  entries: CassetteEntry[];
+}
+
+export class CassetteMismatchError extends Error {
+  constructor(method: string, url: string, file: string) {
+    super(`Cassette replay: no recorded response for ${method} ${url} in ${file}. Re-record with DEVWEAVER_CASSETTE_MODE=record.`);
+    this.name = 'CassetteMismatchError';
+  }
+}
+
+/** Request bodies are compared as canonical JSON so key order does not matter. */
+function canonical(value: unknown): string {
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return value as string;
+    }
+  }
+  return JSON.stringify(value ?? null, (_key, v: unknown) =>
+    v && typeof v === 'object' && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v as Record<string, unknown>).sort(([a], [b]) => a.localeCompare(b)))
+      : v
+  );
+}
+
+class Cassette {
+  mode: CassetteMode = 'off';
+  file = '';
+  private entries: CassetteEntry[] = [];
+  private used: boolean[] = [];
+
+  /**
+   * Start recording to, or replaying from, a cassette file.
+   */
+  start(mode: CassetteMode, file: string): void {
+    this.mode = mode;
+    this.file = path.resolve(file);
+    this.entries = [];
+    this.used = [];
+
+    if (mode === 'replay') {
+      if (!fs.existsSync(this.file)) throw new Error(`Cassette not found: ${this.file}`);
+      const parsed = JSON.parse(fs.readFileSync(this.file, 'utf-8')) as CassetteFile;
+      this.entries = parsed.entries || [];
+      this.used = this.entries.map(() => false);
+    }
+  }
+
+  /**
+   * Stop and return how many recorded entries were never replayed.
+   */
+  stop(): number {
+    const unused = this.used.filter((u) => !u).length;
+    this.mode = 'off';
+    return unused;
+  }
+
+  /**
+   * Record a completed exchange. The file is rewritten each time so a crash
+   * mid-session still leaves a usable cassette.
+   */
+  record(entry: CassetteEntry): void {
+    this.entries.push(entry);
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    const content: CassetteFile = { version: 1, entries: this.entries };
+    fs.writeFileSync(this.file, JSON.stringify(content, null, 2));
+  }
+
+  /**
+   * Find the first unused entry matching method, URL and body.
+   */
+  replay(method: string, url: string, body: unknown): CassetteEntry {
+    const key = canonical(body);
+    const index = this.entries.findIndex((e, i) =>
+      !this.used[i]
+      && e.request.method === method
+      && e.request.url === url
+      && canonical(e.request.body) === key
+    );
+    const entry = this.entries[index];
+    if (!entry) throw new CassetteMismatchError(method, url, this.file);
+
+    this.used[index] = true;
+    return entry;
+  }
+}
+
+// Singleton
+const cassette = new Cassette();
+export default cassette;
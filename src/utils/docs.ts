@@ -229,6 +229,26 @@ ${notesContent}
   logger.success('Updated STATE.md');
 }
 
+/**
+ * Add an open blocker to STATE.md, keeping the rest of the file as is.
+ * Creates STATE.md when it does not exist yet.
+ */
+export function addBlocker(description: string, phase?: number): void {
+  const statePath = path.join(PLANNING_DIR, 'STATE.md');
+  if (!fs.existsSync(statePath)) {
+    updateState({ decisions: [], blockers: [{ phase, description, status: 'open' }], notes: [] });
+    return;
+  }
+
+  const line = `⚠ ${phase ? `[Phase ${phase}] ` : ''}${description}`;
+  const content = fs.readFileSync(statePath, 'utf-8');
+  const updated = /\n## Blockers\n/.test(content)
+    ? content.replace(/(\n## Blockers\n\n?)(\*No blockers\*\n?)?/, (_, heading: string) => `${heading}${line}\n`)
+    : `${content.trimEnd()}\n\n## Blockers\n\n${line}\n`;
+  fs.writeFileSync(statePath, updated);
+  logger.warn(`Blocker added to STATE.md: ${description.split('\n')[0]}`);
+}
+
 /**
  * Read STATE.md
  */
@@ -0,0 +1,96 @@
+// ============================================================================
+// DEVWEAVER – Dry Run
+//
+// With `--dry-run`, mutating tool handlers (Jira, Confluence, Bitbucket,
+// local files, skills, MCP) record what they would have done and return a
+// simulated result instead of calling out. Reads still run, so agents plan
+// against real data. The recorded changes are printed as one change plan.
+// ============================================================================
+
+export type ChangeSystem = 'jira' | 'confluence' | 'bitbucket' | 'code' | 'skills' | 'mcp';
+
+export interface PlannedChange {
+  id: number;
+  system: ChangeSystem;
+  /** What would happen, e.g. "Create Story" or "Delete page". */
+  action: string;
+  /** What it would happen to: a project, issue key, page, PR or file. */
+  target: string;
+  /** The HTTP request that would have been sent, for API integrations. */
+  request?: { method: string; url: string; body?: unknown };
+  details?: string;
+}
+
+const SYSTEM_LABELS: Record<ChangeSystem, string> = {
+  jira: 'Jira',
+  confluence: 'Confluence',
+  bitbucket: 'Bitbucket',
+  code: 'Local files & commands',
+  skills: 'Skills',
+  mcp: 'MCP tools',
+};
+
+class DryRun {
+  enabled = false;
+  private changes: PlannedChange[] = [];
+  /** Placeholder ids issued so far; not cleared by reset(), so ids stay unique. */
+  private issuedIds = 0;
+
+  enable(): void {
+    this.enabled = true;
+  }
+
+  disable(): void {
+    this.enabled = false;
+  }
+
+  /**
+   * Forget the recorded changes, e.g. after printing the plan.
+   */
+  reset(): void {
+    this.changes = [];
+  }
+
+  get planned(): PlannedChange[] {
+    return [...this.changes];
+  }
+
+  /**
+   * A placeholder id for something that would have been created, so later
+   * steps (sub-tasks of a new story, comments on a new PR) can refer to it.
+   */
+  nextId(prefix = 'DRYRUN'): string {
+    return `${prefix}-${++this.issuedIds}`;
+  }
+
+  /**
+   * Record a change and return the simulated result the handler hands back
+   * to the agent in place of the real response.
+   */
+  record<T extends object>(change: Omit<PlannedChange, 'id'>, result: T): T & { dryRun: true; message: string } {
+    this.changes.push({ id: this.changes.length + 1, ...change });
+    return { ...result, dryRun: true, message: `Dry run: ${change.action} ${change.target} was recorded, not executed.` };
+  }
+
+  /**
+   * The recorded changes as a readable plan, grouped by system.
+   */
+  formatPlan(): string {
+    if (this.changes.length === 0) return 'Change plan: no changes would be made.';
+
+    const lines = [`Change plan — ${this.changes.length} change(s), nothing was executed:`];
+    for (const system of Object.keys(SYSTEM_LABELS) as ChangeSystem[]) {
+      const changes = this.changes.filter((c) => c.system === system);
+      if (changes.length === 0) continue;
+      lines.push('', `${SYSTEM_LABELS[system]}:`);
+      for (const change of changes) {
+        lines.push(`  ${change.id}. ${change.action} ${change.target}${change.details ? ` — ${change.details}` : ''}`);
+        if (change.request) lines.push(`     ${change.request.method} ${change.request.url}`);
+      }
+    }
+    return lines.join('\n');
+  }
+}
+
+// Singleton
+export const dryRun = new DryRun();
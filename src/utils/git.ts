@@ -0,0 +1,151 @@
+// ============================================================================
+// DEVWEAVER – Git Helpers
+//
+// Thin wrappers over the git CLI, plus the "active repo root": code tools
+// resolve paths and run commands against it, so an executor working in its
+// own git worktree (see withRepoRoot) never touches the main checkout.
+// ============================================================================
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { execFileSync } from 'node:child_process';
+import config from '../config.js';
+
+/**
+ * Raised when a git command exits non-zero; `message` includes its stderr.
+ */
+export class GitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GitError';
+  }
+}
+
+const repoRootStore = new AsyncLocalStorage<string>();
+
+/**
+ * The repository agents work in: the worktree set by withRepoRoot for the
+ * current async call chain, otherwise `config.repo.localPath`.
+ */
+export function activeRepoRoot(): string {
+  return repoRootStore.getStore() ?? config.repo.localPath;
+}
+
+/**
+ * Run `fn` with `root` as the active repo root. Everything `fn` awaits,
+ * including tool calls made by agents it runs, sees the same root.
+ */
+export function withRepoRoot<T>(root: string, fn: () => Promise<T>): Promise<T> {
+  return repoRootStore.run(root, fn);
+}
+
+/**
+ * Run git with `args` in `cwd` and return its trimmed stdout.
+ */
+export function git(args: string[], cwd = activeRepoRoot()): string {
+  try {
+    return execFileSync('git', args, { cwd, encoding: 'utf-8', stdio: ['ignore', 'pipe', 'pipe'], maxBuffer: 5 * 1024 * 1024 }).trim();
+  } catch (err) {
+    const stderr = (err as { stderr?: string }).stderr?.trim();
+    throw new GitError(`git ${args.join(' ')} failed${stderr ? `: ${stderr}` : ''}`);
+  }
+}
+
+export function isGitRepo(dir: string): boolean {
+  if (!fs.existsSync(dir)) return false;
+  try {
+    return git(['rev-parse', '--is-inside-work-tree'], dir) === 'true';
+  } catch {
+    return false;
+  }
+}
+
+// ── Task worktrees ──────────────────────────────────────────────────────────
+
+export interface TaskWorktree {
+  /** The main checkout the branch is merged back into. */
+  repo: string;
+  dir: string;
+  branch: string;
+}
+
+export interface MergeOutcome {
+  merged: boolean;
+  /** Files with conflicts; empty when the merge failed for another reason. */
+  conflicts: string[];
+  error?: string;
+}
+
+/**
+ * Check out a new branch `devweaver/<name>` from the repo's HEAD into a
+ * worktree under the git directory (so it never shows up in `git status`).
+ * A branch or worktree left over from an earlier attempt is replaced.
+ */
+export function createTaskWorktree(repo: string, name: string): TaskWorktree {
+  const commonDir = path.resolve(repo, git(['rev-parse', '--git-common-dir'], repo));
+  const worktree: TaskWorktree = {
+    repo,
+    dir: path.join(commonDir, 'devweaver', 'worktrees', name.replace(/\//g, '-')),
+    branch: `devweaver/${name}`,
+  };
+  removeTaskWorktree(worktree, { deleteBranch: true });
+  git(['worktree', 'add', '-b', worktree.branch, worktree.dir, 'HEAD'], repo);
+  return worktree;
+}
+
+/**
+ * Commit everything left uncommitted in `dir`. Returns false when there
+ * was nothing to commit.
+ */
+export function commitAll(dir: string, message: string): boolean {
+  if (!git(['status', '--porcelain'], dir)) return false;
+  git(['add', '-A'], dir);
+  git(['commit', '-m', message], dir);
+  return true;
+}
+
+/**
+ * Merge the worktree's branch into the repo's current branch. On conflict
+ * the merge is aborted, leaving the repo as it was.
+ */
+export function mergeTaskBranch(worktree: TaskWorktree, message: string): MergeOutcome {
+  try {
+    git(['merge', '--no-ff', '-m', message, worktree.branch], worktree.repo);
+    return { merged: true, conflicts: [] };
+  } catch (err) {
+    const error = err instanceof Error ? err.message : String(err);
+    let conflicts: string[] = [];
+    try {
+      conflicts = git(['diff', '--name-only', '--diff-filter=U'], worktree.repo).split('\n').filter(Boolean);
+      git(['merge', '--abort'], worktree.repo);
+    } catch {
+      // The merge never started (e.g. local changes would be overwritten)
+    }
+    return { merged: false, conflicts, error };
+  }
+}
+
+/**
+ * Whether `branch` is already part of the repo's HEAD.
+ */
+export function isMerged(repo: string, branch: string): boolean {
+  try {
+    git(['merge-base', '--is-ancestor', branch, 'HEAD'], repo);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Remove the worktree (discarding anything uncommitted in it) and optionally
+ * its branch. Missing worktrees and branches are ignored.
+ */
+export function removeTaskWorktree(worktree: TaskWorktree, options: { deleteBranch?: boolean } = {}): void {
+  if (fs.existsSync(worktree.dir)) git(['worktree', 'remove', '--force', worktree.dir], worktree.repo);
+  git(['worktree', 'prune'], worktree.repo);
+  if (options.deleteBranch && git(['branch', '--list', worktree.branch], worktree.repo)) {
+    git(['branch', '-D', worktree.branch], worktree.repo);
+  }
+}
@@ -5,51 +5,105 @@
 import http from 'node:http';
 import https from 'node:https';
 import { URL } from 'node:url';
+import { StringDecoder } from 'node:string_decoder';
+import cassette from './cassette.js';
+import { abortReason, throwIfAborted } from './abort.js';
 import type { HttpRequestOptions, HttpResponse } from '../types/index.js';
 
 /**
  * Make an HTTP request using only built-in Node modules.
+ * Goes through the active cassette, if any (see utils/cassette.ts).
  */
-export function request<T = unknown>(
+export async function request<T = unknown>(
   url: string,
   opts: HttpRequestOptions = {}
 ): Promise<HttpResponse<T>> {
-  return new Promise((resolve, reject) => {
-    const parsedUrl = new URL(url);
-    const transport = parsedUrl.protocol === 'https:' ? https : http;
-
-    const method = (opts.method || 'GET').toUpperCase();
-    const headers: Record<string, string> = { ...opts.headers };
-
-    let payload: string | Buffer | null = null;
-    if (opts.body !== undefined && opts.body !== null) {
-      if (typeof opts.body === 'string' || Buffer.isBuffer(opts.body)) {
-        payload = opts.body;
-      } else {
-        payload = JSON.stringify(opts.body);
-        if (!headers['Content-Type'] && !headers['content-type']) {
-          headers['Content-Type'] = 'application/json';
-        }
+  const method = (opts.method || 'GET').toUpperCase();
+  throwIfAborted(opts.signal);
+
+  if (cassette.mode === 'replay') {
+    const { response } = cassette.replay(method, url, opts.body);
+    return { status: response.status, statusText: response.statusText, headers: response.headers, data: response.data as T };
+  }
+
+  const res = await sendRequest<T>(url, opts);
+
+  if (cassette.mode === 'record') {
+    cassette.record({
+      tag: opts.tag || 'http',
+      request: { method, url, body: opts.body },
+      response: { status: res.status, statusText: res.statusText, headers: res.headers, data: res.data },
+    });
+  }
+  return res;
+}
+
+/**
+ * Build the request (headers, JSON or raw payload, basic auth), wire up
+ * error, abort and timeout handling, and send it. `onResponse` gets the
+ * response; anything it throws or rejects must go through `reject`.
+ */
+function startRequest(
+  url: string,
+  opts: HttpRequestOptions,
+  reject: (err: unknown) => void,
+  onResponse: (res: http.IncomingMessage) => void
+): void {
+  const parsedUrl = new URL(url);
+  const transport = parsedUrl.protocol === 'https:' ? https : http;
+
+  const method = (opts.method || 'GET').toUpperCase();
+  const headers: Record<string, string> = { ...opts.headers };
+
+  let payload: string | Buffer | null = null;
+  if (opts.body !== undefined && opts.body !== null) {
+    if (typeof opts.body === 'string' || Buffer.isBuffer(opts.body)) {
+      payload = opts.body;
+    } else {
+      payload = JSON.stringify(opts.body);
+      if (!headers['Content-Type'] && !headers['content-type']) {
+        headers['Content-Type'] = 'application/json';
       }
-      headers['Content-Length'] = String(Buffer.byteLength(payload));
     }
+    headers['Content-Length'] = String(Buffer.byteLength(payload));
+  }
+
+  // Add basic auth if provided
+  if (opts.auth) {
+    const auth = Buffer.from(`${opts.auth.username}:${opts.auth.password}`).toString('base64');
+    headers['Authorization'] = `Basic ${auth}`;
+  }
+
+  const reqOpts: http.RequestOptions = {
+    hostname: parsedUrl.hostname,
+    port: parsedUrl.port || (parsedUrl.protocol === 'https:' ? 443 : 80),
+    path: parsedUrl.pathname + parsedUrl.search,
+    method,
+    headers,
+    timeout: opts.timeout || 30_000,
+    signal: opts.signal,
+  };
+
+  const req = transport.request(reqOpts, (res) => {
+    res.on('error', (err) => reject(opts.signal?.aborted ? abortReason(opts.signal) : err));
+    onResponse(res);
+  });
 
-    // Add basic auth if provided
-    if (opts.auth) {
-      const auth = Buffer.from(`${opts.auth.username}:${opts.auth.password}`).toString('base64');
-      headers['Authorization'] = `Basic ${auth}`;
-    }
+  req.on('error', (err) => reject(opts.signal?.aborted ? abortReason(opts.signal) : err));
+  req.on('timeout', () => {
+    req.destroy();
+    reject(new Error('Request timed out'));
+  });
 
-    const reqOpts: http.RequestOptions = {
-      hostname: parsedUrl.hostname,
-      port: parsedUrl.port || (parsedUrl.protocol === 'https:' ? 443 : 80),
-      path: parsedUrl.pathname + parsedUrl.search,
-      method,
-      headers,
-      timeout: opts.timeout || 30_000,
-    };
+  if (payload) {
+    req.write(payload);
+  }
+  req.end();
+}
 
-    const req = transport.request(reqOpts, (res) => {
+function sendRequest<T>(url: string, opts: HttpRequestOptions): Promise<HttpResponse<T>> {
+  return new Promise((resolve, reject) => {
+    startRequest(url, opts, reject, (res) => {
       const chunks: Buffer[] = [];
 
       res.on('data', (chunk: Buffer) => chunks.push(chunk));
@@ -75,17 +129,82 @@ export function request<T = unknown>(
         });
       });
     });
+  });
+}
 
-    req.on('error', reject);
-    req.on('timeout', () => {
-      req.destroy();
-      reject(new Error('Request timed out'));
-    });
+/**
+ * Make an HTTP request and hand the response body to `onData` chunk by chunk
+ * as it arrives (e.g. server-sent events). Non-2xx bodies are buffered
+ * instead, so callers can report the error payload.
+ */
+export async function requestStream(
+  url: string,
+  opts: HttpRequestOptions,
+  onData: (chunk: string) => void
+): Promise<HttpResponse<unknown>> {
+  const method = (opts.method || 'GET').toUpperCase();
+  throwIfAborted(opts.signal);
+
+  if (cassette.mode === 'replay') {
+    const { response } = cassette.replay(method, url, opts.body);
+    if (response.stream) onData(response.stream);
+    return { status: response.status, statusText: response.statusText, headers: response.headers, data: response.data };
+  }
+
+  if (cassette.mode !== 'record') return sendStream(url, opts, onData);
+
+  let raw = '';
+  const res = await sendStream(url, opts, (chunk) => {
+    raw += chunk;
+    onData(chunk);
+  });
+  cassette.record({
+    tag: opts.tag || 'http',
+    request: { method, url, body: opts.body },
+    response: { status: res.status, statusText: res.statusText, headers: res.headers, data: res.data, stream: raw || undefined },
+  });
+  return res;
+}
 
-    if (payload) {
-      req.write(payload);
-    }
-    req.end();
+function sendStream(
+  url: string,
+  opts: HttpRequestOptions,
+  onData: (chunk: string) => void
+): Promise<HttpResponse<unknown>> {
+  return new Promise((resolve, reject) => {
+    startRequest(url, opts, reject, (res) => {
+      const status = res.statusCode || 0;
+      const ok = status >= 200 && status < 300;
+      const chunks: Buffer[] = [];
+      // Holds back a multi-byte character split across chunks until it is whole
+      const decoder = new StringDecoder('utf8');
+
+      res.on('data', (chunk: Buffer) => {
+        if (!ok) chunks.push(chunk);
+        else {
+          const text = decoder.write(chunk);
+          if (text) onData(text);
+        }
+      });
+
+      res.on('end', () => {
+        const rest = ok ? decoder.end() : '';
+        if (rest) onData(rest);
+        const raw = Buffer.concat(chunks).toString('utf-8');
+        let data: unknown = raw;
+        try {
+          data = raw ? JSON.parse(raw) : raw;
+        } catch {
+          // Keep raw string if JSON parse fails
+        }
+        resolve({
+          status,
+          statusText: res.statusMessage || '',
+          headers: res.headers as Record<string, string>,
+          data,
+        });
+      });
+    });
   });
 }
 
@@ -0,0 +1,190 @@
+// ============================================================================
+// DEVWEAVER – Phase Plans
+//
+// Parses the XML plan in .planning/phase-N/PLAN.md (the format the planner
+// writes) into tasks with their steps, verification and acceptance
+// criteria, so executors get the exact task instead of a free-text summary.
+// ============================================================================
+
+import { readPhasePlan } from './docs.js';
+
+export interface PlanFile {
+  path: string;
+  /** `create`, `modify`, ... when the plan says. */
+  action?: string;
+}
+
+export interface PlanTask {
+  id: string;
+  name: string;
+  /** Ids of tasks that must complete first (`depends="1,2"`). */
+  depends: string[];
+  description: string;
+  files: PlanFile[];
+  steps: string[];
+  /** Verification steps and commands, in plan order. */
+  verification: string[];
+  /** Expected results of the verification. */
+  expected: string[];
+  acceptance: string[];
+}
+
+export interface PhasePlan {
+  number?: number;
+  name: string;
+  overview: string;
+  prerequisites: string[];
+  tasks: PlanTask[];
+  /** Steps that verify the phase as a whole. */
+  verification: string[];
+}
+
+interface XmlElement {
+  attrs: Record<string, string>;
+  inner: string;
+}
+
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+/**
+ * All `<tag>` elements in `xml`. Elements of one tag must not nest, which
+ * holds for every tag in the plan format.
+ */
+function elements(xml: string, tag: string): XmlElement[] {
+  const pattern = new RegExp(`<${tag}(\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'g');
+  return [...xml.matchAll(pattern)].map((m) => ({
+    attrs: Object.fromEntries([...(m[1] || '').matchAll(/([\w-]+)="([^"]*)"/g)].map((a) => [a[1] as string, a[2] as string])),
+    inner: m[2] as string,
+  }));
+}
+
+function first(xml: string, tag: string): XmlElement | undefined {
+  return elements(xml, tag)[0];
+}
+
+/** Element text with CDATA unwrapped, entities decoded and indentation removed. */
+function text(inner: string | undefined): string {
+  if (inner === undefined) return '';
+  const raw = inner
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, (_, data: string) => data.replace(/&/g, '&amp;'))
+    .replace(/&(lt|gt|amp|quot|apos);/g, (_, name: string) => ENTITIES[name] as string);
+  const lines = raw.replace(/^\s*\n/, '').trimEnd().split('\n');
+  const indent = Math.min(...lines.filter((l) => l.trim()).map((l) => (/^\s*/.exec(l) as RegExpExecArray)[0].length));
+  return lines.map((l) => l.slice(Number.isFinite(indent) ? indent : 0)).join('\n').trim();
+}
+
+function texts(xml: string | undefined, tag: string): string[] {
+  return xml === undefined ? [] : elements(xml, tag).map((e) => text(e.inner)).filter(Boolean);
+}
+
+function parseTask(task: XmlElement, index: number): PlanTask {
+  const verification = first(task.inner, 'verification')?.inner;
+  const acceptance = first(task.inner, 'acceptance')?.inner;
+  return {
+    id: task.attrs.id || String(index + 1),
+    name: task.attrs.name || text(first(task.inner, 'name')?.inner) || `Task ${index + 1}`,
+    depends: (task.attrs.depends || '').split(/[\s,]+/).filter(Boolean),
+    description: text(first(task.inner, 'description')?.inner),
+    files: elements(first(task.inner, 'files')?.inner || '', 'file').map((f) => ({ path: text(f.inner), action: f.attrs.action })),
+    steps: texts(first(task.inner, 'steps')?.inner, 'step'),
+    verification: verification === undefined ? [] : elements(verification, '(?:step|command)').map((e) => text(e.inner)).filter(Boolean),
+    expected: texts(verification, 'expected'),
+    // Either plain text or a list of <item>/<criterion> elements
+    acceptance: acceptance === undefined ? [] : /<(item|criterion)[\s>]/.test(acceptance)
+      ? elements(acceptance, '(?:item|criterion)').map((e) => text(e.inner)).filter(Boolean)
+      : [text(acceptance)].filter(Boolean),
+  };
+}
+
+/**
+ * Parse a PLAN.md document. Markdown around the `<phase>` element (headings,
+ * code fences) is ignored. Throws when there is no `<phase>` or no tasks.
+ */
+export function parsePhasePlan(content: string): PhasePlan {
+  const phase = first(content, 'phase');
+  if (!phase) throw new Error('PLAN.md has no <phase> element');
+
+  const tasks = elements(first(phase.inner, 'tasks')?.inner || phase.inner, 'task').map(parseTask);
+  if (tasks.length === 0) throw new Error('PLAN.md has no <task> elements');
+
+  return {
+    number: phase.attrs.number ? Number(phase.attrs.number) : undefined,
+    name: phase.attrs.name || '',
+    overview: text(first(phase.inner, 'overview')?.inner),
+    prerequisites: texts(first(phase.inner, 'prerequisites')?.inner, 'item'),
+    tasks,
+    verification: texts(first(phase.inner, 'phase-verification')?.inner, 'step'),
+  };
+}
+
+/**
+ * Read and parse `.planning/phase-N/PLAN.md`. Returns null when the phase
+ * has no plan.
+ */
+export function loadPhasePlan(phaseNumber: number): PhasePlan | null {
+  const content = readPhasePlan(phaseNumber);
+  return content === null ? null : parsePhasePlan(content);
+}
+
+/**
+ * Problems with the plan's `depends` attributes: unknown ids, duplicate
+ * task ids and cycles. Empty when the tasks form a DAG.
+ */
+export function dependencyErrors(plan: PhasePlan): string[] {
+  const errors: string[] = [];
+  const byId = new Map<string, PlanTask>();
+  for (const task of plan.tasks) {
+    if (byId.has(task.id)) errors.push(`duplicate task id "${task.id}"`);
+    byId.set(task.id, task);
+  }
+  for (const task of plan.tasks) {
+    for (const dep of task.depends) {
+      if (!byId.has(dep)) errors.push(`task ${task.id} depends on unknown task "${dep}"`);
+    }
+  }
+
+  // Depth-first search; reaching a task that is still on the stack is a cycle
+  const state = new Map<string, 'visiting' | 'done'>();
+  const visit = (id: string, trail: string[]): void => {
+    if (state.get(id) === 'done') return;
+    if (state.get(id) === 'visiting') {
+      errors.push(`dependency cycle: ${[...trail.slice(trail.indexOf(id)), id].join(' → ')}`);
+      return;
+    }
+    state.set(id, 'visiting');
+    for (const dep of byId.get(id)?.depends || []) {
+      if (byId.has(dep)) visit(dep, [...trail, id]);
+    }
+    state.set(id, 'done');
+  };
+  for (const id of byId.keys()) visit(id, []);
+  return errors;
+}
+
+/**
+ * Find a task by its `id` attribute.
+ */
+export function findPlanTask(plan: PhasePlan, taskId: number | string): PlanTask | undefined {
+  return plan.tasks.find((t) => t.id === String(taskId));
+}
+
+/**
+ * Render a task as Markdown for an agent's prompt.
+ */
+export function formatPlanTask(task: PlanTask, phaseNumber?: number): string {
+  const lines = [`## Task ${task.id}: ${task.name}${phaseNumber === undefined ? '' : ` (phase ${phaseNumber})`}`];
+  if (task.depends.length > 0) lines.push(`Depends on task(s) ${task.depends.join(', ')}.`);
+  const section = (title: string, items: string[]) => {
+    if (items.length > 0) lines.push('', `### ${title}`, ...items);
+  };
+
+  section('Description', task.description ? [task.description] : []);
+  section('Files', task.files.map((f) => `- ${f.path}${f.action ? ` (${f.action})` : ''}`));
+  section('Steps', task.steps.map((s, i) => `${i + 1}. ${s}`));
+  section('Verification', [
+    ...task.verification.map((v) => `- ${v}`),
+    ...task.expected.map((e) => `- Expected: ${e}`),
+  ]);
+  section('Acceptance criteria', task.acceptance.map((a) => `- ${a}`));
+  return lines.join('\n');
+}